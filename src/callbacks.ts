@@ -7,6 +7,8 @@ export interface ProgressCallback {
   onInfo(message: string): Promise<void> | void
   onWarning(message: string): Promise<void> | void
   onError(message: string, error?: Error): Promise<void> | void
+  /** Receives intermediate results from scrapers that stream them in batches */
+  onData?(type: string, data: any): Promise<void> | void
 }
 
 /**
@@ -20,6 +22,7 @@ export function createSilentCallback(): ProgressCallback {
     onInfo: (_message: string) => {},
     onWarning: (_message: string) => {},
     onError: (_message: string, _error?: Error) => {},
+    onData: (_type: string, _data: any) => {},
   }
 }
 
@@ -44,6 +47,9 @@ export function createConsoleCallback(): ProgressCallback {
     onError: (message: string, error?: Error) => {
       logger.error(`${message}${error ? ` - ${error.message}` : ''}`)
     },
+    onData: (type: string, data: any) => {
+      logger.debug(`Received ${type} data${Array.isArray(data) ? ` (${data.length} items)` : ''}`)
+    },
   }
 }
 
@@ -87,6 +93,9 @@ export function createJSONLogCallback(logFile: string): ProgressCallback {
         details: error?.message,
       })
     },
+    onData: async (type: string, data: any) => {
+      await logToFile('data', { scraper_type: type, data })
+    },
   }
 }
 
@@ -112,5 +121,8 @@ export function createMultiCallback(...callbacks: ProgressCallback[]): ProgressC
     onError: async (message: string, error?: Error) => {
       await Promise.all(callbacks.map((c) => c.onError(message, error)))
     },
+    onData: async (type: string, data: any) => {
+      await Promise.all(callbacks.map((c) => c.onData?.(type, data)))
+    },
   }
 }
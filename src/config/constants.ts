@@ -20,11 +20,64 @@ export const SCRAPING_CONSTANTS = {
   EDUCATION_MAX_SCROLLS: 5,
   PATENTS_SCROLL_PAUSE: 2.0,
   PATENTS_MAX_SCROLLS: 10,
+  SKILLS_SCROLL_PAUSE: 1.5,
+  VOLUNTEERING_SCROLL_PAUSE: 0.5,
+  VOLUNTEERING_MAX_SCROLLS: 5,
+  FEATURED_MAX_CAROUSEL_PAGES: 10,
+  SKILLS_MAX_SCROLLS: 10,
+  COMPANY_PEOPLE_SCROLL_PAUSE: 1.0,
+  COMPANY_PEOPLE_MAX_ROUNDS: 20,
+  JOB_SEARCH_SCROLL_PAUSE: 0.5,
+  JOB_SEARCH_MAX_SCROLLS: 5,
+  PEOPLE_SEARCH_SCROLL_PAUSE: 0.5,
+  PEOPLE_SEARCH_MAX_SCROLLS: 3,
+  POSTS_SCROLL_PAUSE: 1.5,
+  POSTS_MAX_ROUNDS: 10,
+  POST_REACTIONS_MAX_ROUNDS: 20,
+  POST_COMMENTS_MAX_ROUNDS: 20,
+  MY_CONNECTIONS_SCROLL_PAUSE: 1.5,
+  MY_CONNECTIONS_MAX_ROUNDS: 50,
+  // Extra scroll rounds granted per card to load before the requested window, so large resume offsets still load
+  MY_CONNECTIONS_ROUNDS_PER_CARD: 0.1,
+  MY_CONNECTIONS_MAX_STALE_ROUNDS: 3,
+  MESSAGING_SCROLL_PAUSE: 1.0,
+  MESSAGING_MAX_ROUNDS: 20,
+  // Older messages load asynchronously, so a few empty rounds are tolerated before paging stops
+  MESSAGING_MAX_STALE_ROUNDS: 3,
 
   // Wait times (seconds) before focusing on sections
   EXPERIENCE_FOCUS_WAIT: 1.5,
   EDUCATION_FOCUS_WAIT: 2,
   PATENTS_FOCUS_WAIT: 2.0,
+  SKILLS_FOCUS_WAIT: 1.5,
+  RECOMMENDATIONS_FOCUS_WAIT: 1.5,
+  VOLUNTEERING_FOCUS_WAIT: 1.5,
+  FEATURED_FOCUS_WAIT: 1.5,
+  COMPANY_FOCUS_WAIT: 1.5,
+  SCHOOL_FOCUS_WAIT: 1.5,
+  COMMUNITY_FOCUS_WAIT: 1.5,
+  COMPANY_PEOPLE_FOCUS_WAIT: 2.0,
+  POSTS_FOCUS_WAIT: 2.0,
+  MESSAGING_FOCUS_WAIT: 2.0,
+
+  // Default caps for list scrapers
+  COMPANY_PEOPLE_DEFAULT_LIMIT: 50,
+  POSTS_DEFAULT_LIMIT: 20,
+  POST_REACTIONS_DEFAULT_LIMIT: 100,
+  POST_COMMENTS_DEFAULT_LIMIT: 100,
+  MUTUAL_CONNECTIONS_DEFAULT_LIMIT: 50,
+  MY_CONNECTIONS_DEFAULT_LIMIT: 500,
+  MY_CONNECTIONS_BATCH_SIZE: 40,
+  CONVERSATIONS_DEFAULT_LIMIT: 50,
+  MESSAGES_DEFAULT_LIMIT: 100,
+
+  // Result page sizes used by LinkedIn search pagination
+  JOB_SEARCH_PAGE_SIZE: 25,
+  PEOPLE_SEARCH_PAGE_SIZE: 10,
+  // LinkedIn stops serving people search results after page 100
+  PEOPLE_SEARCH_MAX_PAGES: 100,
+  // Hard page cap for mutual connection results, regardless of the requested limit
+  MUTUAL_CONNECTIONS_MAX_PAGES: 10,
 } as const
 
 /**
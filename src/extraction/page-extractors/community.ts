@@ -0,0 +1,108 @@
+import type { Locator } from 'playwright'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { findSectionRoot, navigateToSection } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, RawSection } from './types'
+
+/**
+ * Group and newsletter pages share a simple layout: a title, a count line ("12,345 members",
+ * "8K subscribers"), a description and the owner or author. Both are read into raw sections with
+ * the synthetic headings `name`, `counts`, `about` and `owner`.
+ */
+abstract class CommunityPageExtractor implements PageExtractor {
+  abstract readonly sectionName: string
+  /** Path segment the page URL must keep; redirects to the feed or a join wall lose it. */
+  protected abstract readonly pathSegment: string
+  /** Whether the owner may be read from the header next to the title when there is no owner block. */
+  protected abstract readonly ownerInHeader: boolean
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    if (!isSamePage(config.page.url(), config.baseUrl)) {
+      const didNavigate = await navigateToSection(
+        config.page,
+        config.baseUrl,
+        '',
+        config.focusWait ?? SCRAPING_CONSTANTS.COMMUNITY_FOCUS_WAIT,
+      )
+      if (!didNavigate) return { kind: 'raw', data: [] }
+    }
+
+    if (!config.page.url().includes(this.pathSegment)) return { kind: 'raw', data: [] }
+
+    const root = await findSectionRoot(config.page, this.sectionName)
+    return { kind: 'raw', data: await extractCommunitySections(root, this.ownerInHeader) }
+  }
+}
+
+export class GroupPageExtractor extends CommunityPageExtractor {
+  readonly sectionName = 'group'
+  protected readonly pathSegment = '/groups/'
+  protected readonly ownerInHeader = false
+}
+
+export class NewsletterPageExtractor extends CommunityPageExtractor {
+  readonly sectionName = 'newsletter'
+  protected readonly pathSegment = '/newsletters/'
+  protected readonly ownerInHeader = true
+}
+
+function isSamePage(currentUrl: string, targetUrl: string): boolean {
+  try {
+    const current = new URL(currentUrl)
+    const target = new URL(targetUrl, 'https://www.linkedin.com')
+    return (
+      current.hostname === target.hostname && current.pathname.replace(/\/$/, '') === target.pathname.replace(/\/$/, '')
+    )
+  } catch {
+    return false
+  }
+}
+
+async function extractCommunitySections(root: Locator, ownerInHeader: boolean): Promise<RawSection[]> {
+  return await root.evaluate((element, ownerInHeader) => {
+    const normalize = (input: string | null | undefined): string => (input ?? '').replace(/\s+/g, ' ').trim()
+    const sections: RawSection[] = []
+
+    const title = element.querySelector('h1')
+    const name = normalize(title?.textContent)
+    if (name) sections.push({ heading: 'name', text: name, labels: [], anchors: [] })
+
+    const counts = Array.from(element.querySelectorAll('span, p, div, li, a'))
+      .filter((node) => node.children.length === 0)
+      .map((node) => normalize(node.textContent))
+      .filter((text) => text.length < 60 && /\d/.test(text) && /\b(?:members?|subscribers?)\b/i.test(text))
+    if (counts.length > 0) sections.push({ heading: 'counts', text: counts[0] ?? '', labels: counts, anchors: [] })
+
+    const headings = Array.from(element.querySelectorAll('h2, h3'))
+    const aboutHeading = headings.find((heading) =>
+      /^about(?: this (?:group|newsletter))?$/i.test(normalize(heading.textContent)),
+    )
+    const aboutNode =
+      aboutHeading?.parentElement?.querySelector('p') ??
+      aboutHeading?.nextElementSibling ??
+      element.querySelector('[class*="description"]')
+    const about = normalize(aboutNode?.textContent)
+    if (about) sections.push({ heading: 'about', text: about, labels: [], anchors: [] })
+
+    // Groups list their owner/admins under a heading; newsletters link the author near the title.
+    // Anywhere else on the page a profile link is more likely a feed post's author.
+    const ownerHeading = headings.find((heading) =>
+      /^(?:(?:group )?owner|(?:group )?admins?)$/i.test(normalize(heading.textContent)),
+    )
+    const headerScope = ownerInHeader ? (title?.closest('header') ?? title?.parentElement) : null
+    const ownerScope = ownerHeading?.parentElement ?? headerScope
+    const ownerLink = Array.from(ownerScope?.querySelectorAll('a[href*="/in/"], a[href*="/company/"]') ?? []).find(
+      (anchor) => !!normalize(anchor.textContent),
+    )
+    if (ownerLink) {
+      const text = normalize(ownerLink.textContent)
+      sections.push({
+        heading: 'owner',
+        text,
+        labels: [],
+        anchors: [{ href: ownerLink.getAttribute('href'), text }],
+      })
+    }
+
+    return sections
+  }, ownerInHeader)
+}
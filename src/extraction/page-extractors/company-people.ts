@@ -0,0 +1,66 @@
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { loadMoreItems, navigateToSection } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult } from './types'
+
+/** Facet filters offered on a company's People tab (values are LinkedIn facet IDs) */
+export interface CompanyPeopleFilters {
+  keywords?: string
+  locations?: string[]
+  schools?: string[]
+  functions?: string[]
+}
+
+export interface CompanyPeoplePageExtractorOptions {
+  filters?: CompanyPeopleFilters
+  maxResults?: number
+}
+
+export class CompanyPeoplePageExtractor implements PageExtractor {
+  readonly sectionName = 'company-people'
+
+  private readonly filters: CompanyPeopleFilters
+  private readonly maxResults: number
+
+  constructor(options: CompanyPeoplePageExtractorOptions = {}) {
+    this.filters = options.filters ?? {}
+    this.maxResults = options.maxResults ?? SCRAPING_CONSTANTS.COMPANY_PEOPLE_DEFAULT_LIMIT
+  }
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const didNavigate = await navigateToSection(
+      config.page,
+      config.baseUrl,
+      buildCompanyPeoplePath(this.filters),
+      config.focusWait ?? SCRAPING_CONSTANTS.COMPANY_PEOPLE_FOCUS_WAIT,
+    )
+
+    if (!didNavigate) return { kind: 'list', items: [] }
+
+    const items = await loadMoreItems(config.page, this.sectionName, {
+      maxItems: this.maxResults,
+      maxRounds: config.scroll?.maxScrolls ?? SCRAPING_CONSTANTS.COMPANY_PEOPLE_MAX_ROUNDS,
+      pauseTime: config.scroll?.pauseTime ?? SCRAPING_CONSTANTS.COMPANY_PEOPLE_SCROLL_PAUSE,
+    })
+
+    return {
+      kind: 'list',
+      items: items.map((locator) => ({ locator, context: {} })),
+    }
+  }
+}
+
+/**
+ * Builds the People tab path with facet query parameters,
+ * e.g. "people/?keywords=design&facetGeoRegion=103644278".
+ */
+export function buildCompanyPeoplePath(filters: CompanyPeopleFilters): string {
+  const params = new URLSearchParams()
+
+  if (filters.keywords) params.set('keywords', filters.keywords)
+  for (const location of filters.locations ?? []) params.append('facetGeoRegion', location)
+  for (const school of filters.schools ?? []) params.append('facetSchool', school)
+  for (const fn of filters.functions ?? []) params.append('facetCurrentFunction', fn)
+
+  const query = params.toString()
+  return query ? `people/?${query}` : 'people/'
+}
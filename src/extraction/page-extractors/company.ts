@@ -0,0 +1,113 @@
+import type { Locator } from 'playwright'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { selectorRegistry } from '../registry'
+import { findSectionRoot, navigateToSection } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, RawSection } from './types'
+
+const TAGLINE_SELECTORS = ['.org-top-card-summary__tagline', '[data-test-id="about-us__tagline"]'] as const
+const SUMMARY_ITEM_SELECTORS = [
+  '.org-top-card-summary-info-list__info-item',
+  '.org-top-card-summary-info-list > div',
+] as const
+
+export class CompanyPageExtractor implements PageExtractor {
+  readonly sectionName = 'company'
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const didNavigate = await navigateToSection(
+      config.page,
+      config.baseUrl,
+      'about/',
+      config.focusWait ?? SCRAPING_CONSTANTS.COMPANY_FOCUS_WAIT,
+    )
+
+    if (!didNavigate) return { kind: 'raw', data: [] }
+
+    const root = await findSectionRoot(config.page, this.sectionName)
+    const data = await this.extractRawSections(root)
+    return { kind: 'raw', data }
+  }
+
+  /**
+   * Reads the company top card and the "Overview" definition list into raw sections.
+   * Top card fields use the synthetic headings `name`, `tagline`, `summary` and `overview`.
+   */
+  async extractRawSections(root: Locator): Promise<RawSection[]> {
+    const termSelectors = selectorRegistry.getSection(this.sectionName)?.itemSelectors ?? ['dl dt']
+
+    return await root.evaluate(
+      (element, selectors) => {
+        const normalize = (input: string | null | undefined): string => {
+          if (!input) return ''
+          return input.replace(/\s+/g, ' ').trim()
+        }
+
+        const toAnchors = (node: Element) =>
+          Array.from(node.querySelectorAll('a')).map((anchor) => ({
+            href: normalize(anchor.getAttribute('href')) || null,
+            text: normalize(anchor.textContent) || null,
+          }))
+
+        const sections: RawSection[] = []
+
+        const nameNode = element.querySelector('h1')
+        const name = normalize(nameNode?.textContent)
+        if (name) sections.push({ heading: 'name', text: name, labels: [], anchors: [] })
+
+        for (const selector of selectors.tagline) {
+          const tagline = normalize(element.querySelector(selector)?.textContent)
+          if (!tagline) continue
+          sections.push({ heading: 'tagline', text: tagline, labels: [], anchors: [] })
+          break
+        }
+
+        for (const selector of selectors.summary) {
+          const labels = Array.from(element.querySelectorAll(selector))
+            .map((node) => normalize(node.textContent))
+            .filter(Boolean)
+          if (labels.length === 0) continue
+          sections.push({ heading: 'summary', text: labels.join(' · '), labels, anchors: [] })
+          break
+        }
+
+        const overviewHeading = Array.from(element.querySelectorAll('h2')).find(
+          (heading) => normalize(heading.textContent).toLowerCase() === 'overview',
+        )
+        const overviewNode = overviewHeading?.parentElement?.querySelector('p') ?? overviewHeading?.nextElementSibling
+        const overview = normalize(overviewNode?.textContent)
+        if (overview) sections.push({ heading: 'overview', text: overview, labels: [], anchors: [] })
+
+        for (const selector of selectors.terms) {
+          const terms = Array.from(element.querySelectorAll(selector))
+          if (terms.length === 0) continue
+
+          for (const term of terms) {
+            const heading = normalize(term.textContent).toLowerCase()
+            if (!heading) continue
+
+            const values: Element[] = []
+            let sibling = term.nextElementSibling
+            while (sibling && sibling.tagName === 'DD') {
+              values.push(sibling)
+              sibling = sibling.nextElementSibling
+            }
+
+            const [first, ...rest] = values
+            if (!first) continue
+
+            sections.push({
+              heading,
+              text: normalize(first.textContent),
+              labels: rest.map((value) => normalize(value.textContent)).filter(Boolean),
+              anchors: values.flatMap(toAnchors),
+            })
+          }
+          break
+        }
+
+        return sections
+      },
+      { terms: termSelectors, tagline: [...TAGLINE_SELECTORS], summary: [...SUMMARY_ITEM_SELECTORS] },
+    )
+  }
+}
@@ -1,5 +1,11 @@
 import { SCRAPING_CONSTANTS } from '../../config/constants'
-import { findItemsWithFallback, findSectionByHeading, navigateToSection, scrollSection } from './helpers'
+import {
+  expandInlineText,
+  findItemsWithFallback,
+  findSectionByHeading,
+  navigateToSection,
+  scrollSection,
+} from './helpers'
 import type { PageExtractor, PageExtractorConfig, PageExtractorResult } from './types'
 
 export class EducationPageExtractor implements PageExtractor {
@@ -8,6 +14,7 @@ export class EducationPageExtractor implements PageExtractor {
   async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
     const mainPageItems = await this.extractFromMainPage(config)
     if (mainPageItems.length > 0) {
+      for (const locator of mainPageItems) await expandInlineText(locator)
       return {
         kind: 'list',
         items: mainPageItems.map((locator) => ({ locator, context: {} })),
@@ -29,6 +36,8 @@ export class EducationPageExtractor implements PageExtractor {
     })
 
     const detailsItems = await findItemsWithFallback(config.page, 'experience')
+    for (const locator of detailsItems) await expandInlineText(locator)
+
     return {
       kind: 'list',
       items: detailsItems.map((locator) => ({ locator, context: {} })),
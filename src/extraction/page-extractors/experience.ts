@@ -1,6 +1,7 @@
+import type { Locator } from 'playwright'
 import { SCRAPING_CONSTANTS } from '../../config/constants'
-import { findItemsWithFallback, navigateToSection, scrollSection } from './helpers'
-import type { PageExtractor, PageExtractorConfig, PageExtractorResult } from './types'
+import { expandInlineText, findItemsWithFallback, navigateToSection, scrollSection } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, TaggedLocator } from './types'
 
 export class ExperiencePageExtractor implements PageExtractor {
   readonly sectionName = 'experience'
@@ -21,9 +22,49 @@ export class ExperiencePageExtractor implements PageExtractor {
     })
 
     const items = await findItemsWithFallback(config.page, this.sectionName)
-    return {
-      kind: 'list',
-      items: items.map((locator) => ({ locator, context: {} })),
+    const tagged: TaggedLocator[] = []
+
+    for (const locator of items) {
+      await expandInlineText(locator)
+
+      const media = await extractMediaBlocks(locator)
+      tagged.push({ locator, context: media.length > 0 ? { media: JSON.stringify(media) } : {} })
     }
+
+    return { kind: 'list', items: tagged }
   }
 }
+
+interface RawMediaBlock {
+  url: string
+  title: string | null
+  thumbnailUrl: string | null
+}
+
+/**
+ * Collects attached media (thumbnail link blocks) of an experience item.
+ * Company, school and member links are skipped so they are not mistaken for media.
+ */
+async function extractMediaBlocks(locator: Locator): Promise<RawMediaBlock[]> {
+  return await locator
+    .locator('a[href]')
+    .evaluateAll((anchors) =>
+      anchors
+        .filter((anchor) => {
+          const href = anchor.getAttribute('href') ?? ''
+          if (/linkedin\.com\/(?:company|school|in)\/|^\/(?:company|school|in)\//.test(href)) return false
+          return !!anchor.querySelector('img') || /thumbnail|media/i.test(anchor.className)
+        })
+        .map((anchor) => {
+          const img = anchor.querySelector('img')
+          const text = anchor.textContent?.replace(/\s+/g, ' ').trim()
+          const src = img?.getAttribute('src')
+          return {
+            url: anchor.getAttribute('href') ?? '',
+            title: anchor.getAttribute('aria-label') || text || img?.getAttribute('alt') || null,
+            thumbnailUrl: src && !src.startsWith('data:') ? src : null,
+          }
+        }),
+    )
+    .catch(() => [])
+}
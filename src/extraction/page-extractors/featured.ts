@@ -0,0 +1,80 @@
+import type { Locator, Page } from 'playwright'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { waitAndFocus } from '../../scrapers/utils'
+import { findItemsWithFallback, findSectionByHeading, navigateToSection, sectionHasContent } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, TaggedLocator } from './types'
+
+const CAROUSEL_NEXT_SELECTOR =
+  'button.artdeco-pagination__button--next, button[aria-label*="Next" i], button.pvs-carousel__nav-button--next'
+
+/**
+ * Featured items live in a carousel on the main profile and as a full list on
+ * `details/featured/`. The details page is preferred; the carousel is paged through as a fallback.
+ */
+export class FeaturedPageExtractor implements PageExtractor {
+  readonly sectionName = 'featured'
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const hasFeatured = (await findSectionByHeading(config.page, 'Featured')) !== null
+    if (!hasFeatured) return { kind: 'list', items: [] }
+
+    const focusWait = config.focusWait ?? SCRAPING_CONSTANTS.FEATURED_FOCUS_WAIT
+    const didNavigate = await navigateToSection(config.page, config.baseUrl, 'details/featured/', focusWait)
+
+    if (didNavigate && (await sectionHasContent(config.page))) {
+      const items = await findItemsWithFallback(config.page, this.sectionName)
+      if (items.length > 0) return { kind: 'list', items: await tagItems(items) }
+    }
+
+    const didReturn = await navigateToSection(config.page, config.baseUrl, '', focusWait)
+    if (!didReturn) return { kind: 'list', items: [] }
+
+    return { kind: 'list', items: await this.extractFromCarousel(config.page) }
+  }
+
+  private async extractFromCarousel(page: Page): Promise<TaggedLocator[]> {
+    const section = await findSectionByHeading(page, 'Featured')
+    if (!section) return []
+
+    // Slides are lazily rendered, so page through the carousel before collecting them.
+    for (let i = 0; i < SCRAPING_CONSTANTS.FEATURED_MAX_CAROUSEL_PAGES; i++) {
+      const next = section.locator(CAROUSEL_NEXT_SELECTOR).first()
+      if ((await next.count()) === 0 || !(await next.isEnabled().catch(() => false))) break
+
+      try {
+        await next.click({ timeout: 2000 })
+        await waitAndFocus(page, 0.5)
+      } catch {
+        break
+      }
+    }
+
+    return await tagItems(await section.locator('li').all())
+  }
+}
+
+async function tagItems(items: Locator[]): Promise<TaggedLocator[]> {
+  const tagged: TaggedLocator[] = []
+
+  for (const locator of items) {
+    const context: Record<string, string> = {}
+
+    const thumbnail = await locator
+      .locator('img')
+      .first()
+      .getAttribute('src', { timeout: 1000 })
+      .catch(() => null)
+    if (thumbnail && !thumbnail.startsWith('data:')) context.thumbnailUrl = thumbnail
+
+    const href = await locator
+      .locator('a[href]')
+      .first()
+      .getAttribute('href', { timeout: 1000 })
+      .catch(() => null)
+    if (href) context.href = href
+
+    tagged.push({ locator, context })
+  }
+
+  return tagged
+}
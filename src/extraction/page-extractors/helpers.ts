@@ -1,5 +1,11 @@
 import type { Locator, Page } from 'playwright'
-import { navigateAndWait, scrollPageToBottom, scrollPageToHalf, waitAndFocus } from '../../scrapers/utils'
+import {
+  checkRateLimit,
+  navigateAndWait,
+  scrollPageToBottom,
+  scrollPageToHalf,
+  waitAndFocus,
+} from '../../scrapers/utils'
 import { log } from '../../utils/logger'
 import { selectorRegistry } from '../registry'
 
@@ -12,7 +18,7 @@ export async function navigateToSection(
 ): Promise<boolean> {
   const normalizedBase = baseUrl.replace(/\/$/, '')
   const normalizedPath = sectionPath.replace(/^\//, '')
-  const expectedPath = `/${normalizedPath.replace(/\/$/, '')}`
+  const expectedPath = `/${(normalizedPath.split('?')[0] ?? '').replace(/\/$/, '')}`
   const targetUrl = `${normalizedBase}/${normalizedPath}`
 
   try {
@@ -33,6 +39,81 @@ export async function scrollSection(page: Page, options?: { pauseTime?: number;
   await scrollPageToBottom(page, options?.pauseTime ?? 1, options?.maxScrolls ?? 10)
 }
 
+/**
+ * Load more items on an infinite-scroll list until `maxItems` are present or the list stops growing.
+ * Clicks "Show more results" style buttons between scrolls and checks for rate limiting every round.
+ * `maxStaleRounds` is how many rounds in a row may add nothing before giving up (default 1).
+ * With `scrollTarget: 'container'` the `containerSelector` element is scrolled in `scrollDirection`
+ * instead of the page, and every loaded item is returned so the caller can pick which end to keep.
+ */
+export async function loadMoreItems(
+  page: Page,
+  sectionName: string,
+  options: {
+    maxItems: number
+    maxRounds?: number
+    maxStaleRounds?: number
+    pauseTime?: number
+    containerSelector?: string
+    scrollTarget?: 'page' | 'container'
+    scrollDirection?: 'up' | 'down'
+  },
+): Promise<Locator[]> {
+  let items = await findItemsWithFallback(page, sectionName, options.containerSelector)
+  const maxRounds = options.maxRounds ?? 10
+  const maxStaleRounds = options.maxStaleRounds ?? 1
+  const scrollContainer = options.scrollTarget === 'container' && !!options.containerSelector
+  let staleRounds = 0
+
+  for (let round = 0; round < maxRounds && items.length < options.maxItems; round++) {
+    const previousCount = items.length
+
+    if (scrollContainer) {
+      await scrollContainerElement(page, options.containerSelector ?? '', options.scrollDirection ?? 'down')
+      await waitAndFocus(page, options.pauseTime ?? 1)
+    } else {
+      await scrollPageToBottom(page, options.pauseTime ?? 1, 3)
+      await clickShowMoreResults(page)
+    }
+    await checkRateLimit(page)
+
+    items = await findItemsWithFallback(page, sectionName, options.containerSelector)
+    log.debug(`loadMoreItems(${sectionName}) round ${round + 1}: ${items.length} items`)
+
+    staleRounds = items.length <= previousCount ? staleRounds + 1 : 0
+    if (staleRounds >= maxStaleRounds) break
+  }
+
+  return scrollContainer ? items : items.slice(0, options.maxItems)
+}
+
+async function scrollContainerElement(page: Page, containerSelector: string, direction: 'up' | 'down'): Promise<void> {
+  await page
+    .locator(containerSelector)
+    .first()
+    .evaluate((el, direction) => {
+      el.scrollTop = direction === 'up' ? 0 : el.scrollHeight
+    }, direction)
+    .catch(() => {})
+}
+
+async function clickShowMoreResults(page: Page): Promise<boolean> {
+  const button = page
+    .locator(
+      'button:has-text("Show more results"), button.scaffold-finite-scroll__load-button, button:has-text("Load more")',
+    )
+    .first()
+
+  try {
+    if (!(await button.isVisible({ timeout: 1000 }))) return false
+    await button.click()
+    await waitAndFocus(page, 1)
+    return true
+  } catch {
+    return false
+  }
+}
+
 /** Find items using selector registry fallback chain */
 export async function findItemsWithFallback(
   page: Page,
@@ -51,6 +132,33 @@ export async function findItemsWithFallback(
   return await scope.locator('ul > li, ol > li').all()
 }
 
+/** Resolve the first registered container for a section, falling back to main */
+export async function findSectionRoot(page: Page, sectionName: string): Promise<Locator> {
+  const containerSelectors = selectorRegistry.getSection(sectionName)?.containerSelectors ?? []
+
+  for (const selector of containerSelectors) {
+    const candidate = page.locator(selector).first()
+    if ((await candidate.count()) > 0) return candidate
+  }
+
+  return page.locator('main').first()
+}
+
+export const INLINE_SEE_MORE_SELECTOR =
+  'button.inline-show-more-text__button, button:has-text("see more"), button:has-text("…more")'
+
+/** Click the inline "…see more" expander of a list item so its full text is rendered */
+export async function expandInlineText(
+  locator: Locator,
+  buttonSelector: string = INLINE_SEE_MORE_SELECTOR,
+): Promise<void> {
+  const button = locator.locator(buttonSelector).first()
+
+  try {
+    if (await button.isVisible({ timeout: 500 })) await button.click({ timeout: 2000 })
+  } catch {}
+}
+
 /** Try to find a section on the main profile page by heading text */
 export async function findSectionByHeading(page: Page, headingText: string): Promise<Locator | null> {
   const heading = page.locator(`h2:has-text("${headingText}")`).first()
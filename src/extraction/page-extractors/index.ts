@@ -1,10 +1,27 @@
 export * from './about'
 export * from './accomplishment'
+export * from './community'
+export * from './company'
+export * from './company-people'
 export * from './contact'
 export * from './education'
 export * from './experience'
+export * from './featured'
 export * from './helpers'
 export * from './interest'
+export * from './job-posting'
+export * from './job-search'
+export * from './messaging'
+export * from './my-connections'
+export * from './open-to-work'
 export * from './patent'
+export * from './people-search'
+export * from './post'
+export * from './post-engagement'
+export * from './recommendation'
+export * from './related-profile'
+export * from './school'
+export * from './skill'
 export * from './top-card'
 export * from './types'
+export * from './volunteering'
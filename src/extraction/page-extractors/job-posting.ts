@@ -0,0 +1,49 @@
+import { findSectionRoot } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult } from './types'
+
+const DESCRIPTION_EXPAND_SELECTORS = [
+  'button.jobs-description__footer-button',
+  'button[aria-label*="see more description" i]',
+  '.jobs-description button:has-text("See more")',
+] as const
+
+export class JobPostingPageExtractor implements PageExtractor {
+  readonly sectionName = 'job-posting'
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const element = await findSectionRoot(config.page, this.sectionName)
+
+    return {
+      kind: 'single',
+      element,
+      context: {},
+    }
+  }
+}
+
+export class JobDescriptionPageExtractor implements PageExtractor {
+  readonly sectionName = 'job-description'
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    await this.expandDescription(config)
+    const element = await findSectionRoot(config.page, this.sectionName)
+
+    return {
+      kind: 'single',
+      element,
+      context: {},
+    }
+  }
+
+  private async expandDescription(config: PageExtractorConfig): Promise<void> {
+    for (const selector of DESCRIPTION_EXPAND_SELECTORS) {
+      const button = config.page.locator(selector).first()
+      if ((await button.count()) === 0) continue
+
+      try {
+        await button.click({ timeout: 3000 })
+        return
+      } catch {}
+    }
+  }
+}
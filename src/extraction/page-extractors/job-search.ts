@@ -0,0 +1,41 @@
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { matchesSearchUrl, navigateAndWait, scrollPageToBottom, waitAndFocus } from '../../scrapers/utils'
+import { findItemsWithFallback } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, TaggedLocator } from './types'
+
+/**
+ * Extracts the left-hand result cards of a single job search results page.
+ * `config.baseUrl` is the full search URL for the page to load.
+ */
+export class JobSearchPageExtractor implements PageExtractor {
+  readonly sectionName = 'job-search'
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    if (!matchesSearchUrl(config.page.url(), config.baseUrl)) await navigateAndWait(config.page, config.baseUrl)
+    await waitAndFocus(config.page, config.focusWait ?? 1.5)
+
+    // Result cards are virtualized and only render their contents once scrolled into the list viewport.
+    await scrollPageToBottom(
+      config.page,
+      config.scroll?.pauseTime ?? SCRAPING_CONSTANTS.JOB_SEARCH_SCROLL_PAUSE,
+      config.scroll?.maxScrolls ?? SCRAPING_CONSTANTS.JOB_SEARCH_MAX_SCROLLS,
+    )
+
+    const locators = await findItemsWithFallback(config.page, this.sectionName)
+    const items: TaggedLocator[] = []
+
+    for (const locator of locators) {
+      const jobId =
+        (await locator.getAttribute('data-occludable-job-id').catch(() => null)) ??
+        (await locator
+          .locator('[data-job-id]')
+          .first()
+          .getAttribute('data-job-id', { timeout: 1000 })
+          .catch(() => null))
+
+      items.push({ locator, context: jobId ? { jobId } : {} })
+    }
+
+    return { kind: 'list', items }
+  }
+}
@@ -0,0 +1,211 @@
+import type { Locator, Page } from 'playwright'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import type { MessageAttachment } from '../../models'
+import { navigateAndWait, waitAndFocus } from '../../scrapers/utils'
+import { loadMoreItems } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, TaggedLocator } from './types'
+
+const CONVERSATION_LIST_SELECTOR = '.msg-conversations-container__conversations-list, .msg-conversations-container'
+const MESSAGE_LIST_SELECTOR = '.msg-s-message-list, .msg-s-message-list-container'
+
+export interface MessagingPageExtractorOptions {
+  maxItems?: number
+}
+
+/**
+ * Extracts conversation cards from the messaging inbox. `config.baseUrl` is the inbox URL;
+ * the conversation list is its own scroll container, so it is scrolled directly.
+ */
+export class ConversationListPageExtractor implements PageExtractor {
+  readonly sectionName = 'conversation'
+
+  private readonly maxItems: number
+
+  constructor(options: MessagingPageExtractorOptions = {}) {
+    this.maxItems = options.maxItems ?? SCRAPING_CONSTANTS.CONVERSATIONS_DEFAULT_LIMIT
+  }
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    await ensureOnPage(config.page, config.baseUrl, config.focusWait ?? SCRAPING_CONSTANTS.MESSAGING_FOCUS_WAIT)
+
+    const items = await loadMoreItems(config.page, this.sectionName, {
+      maxItems: this.maxItems,
+      containerSelector: CONVERSATION_LIST_SELECTOR,
+      scrollTarget: 'container',
+      scrollDirection: 'down',
+      maxRounds: config.scroll?.maxScrolls ?? SCRAPING_CONSTANTS.MESSAGING_MAX_ROUNDS,
+      maxStaleRounds: SCRAPING_CONSTANTS.MESSAGING_MAX_STALE_ROUNDS,
+      pauseTime: config.scroll?.pauseTime ?? SCRAPING_CONSTANTS.MESSAGING_SCROLL_PAUSE,
+    })
+
+    const tagged: TaggedLocator[] = []
+    for (const locator of items.slice(0, this.maxItems)) {
+      tagged.push({ locator, context: await buildConversationContext(locator) })
+    }
+
+    return { kind: 'list', items: tagged }
+  }
+}
+
+/**
+ * Extracts the most recent messages of a thread. `config.baseUrl` is the thread URL.
+ * Older messages load when the message list is scrolled to the top, so it is paged upwards.
+ * Sender and time are only rendered on the first message of a group and are carried forward.
+ */
+export class MessageThreadPageExtractor implements PageExtractor {
+  readonly sectionName = 'message'
+
+  private readonly maxItems: number
+
+  constructor(options: MessagingPageExtractorOptions = {}) {
+    this.maxItems = options.maxItems ?? SCRAPING_CONSTANTS.MESSAGES_DEFAULT_LIMIT
+  }
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    await ensureOnPage(config.page, config.baseUrl, config.focusWait ?? SCRAPING_CONSTANTS.MESSAGING_FOCUS_WAIT)
+
+    const items = await loadMoreItems(config.page, this.sectionName, {
+      maxItems: this.maxItems,
+      containerSelector: MESSAGE_LIST_SELECTOR,
+      scrollTarget: 'container',
+      scrollDirection: 'up',
+      maxRounds: config.scroll?.maxScrolls ?? SCRAPING_CONSTANTS.MESSAGING_MAX_ROUNDS,
+      maxStaleRounds: SCRAPING_CONSTANTS.MESSAGING_MAX_STALE_ROUNDS,
+      pauseTime: config.scroll?.pauseTime ?? SCRAPING_CONSTANTS.MESSAGING_SCROLL_PAUSE,
+    })
+
+    const tagged: TaggedLocator[] = []
+    let carried: Record<string, string> = {}
+
+    for (const locator of items) {
+      const meta = await readMessageMeta(locator)
+      if (meta.heading) carried = { heading: meta.heading }
+      if (meta.sender) {
+        carried = { heading: carried.heading ?? '', sender: meta.sender, senderUrl: meta.senderUrl ?? '' }
+      }
+      if (meta.time) carried.time = meta.time
+
+      // Date headings and system notices are list entries of their own; only keep real messages.
+      if (!meta.isMessage) continue
+
+      const context: Record<string, string> = {}
+      for (const [key, value] of Object.entries(carried)) {
+        if (value) context[key] = value
+      }
+      if (meta.urn) context.urn = meta.urn
+      if (meta.attachments.length > 0) context.attachments = JSON.stringify(meta.attachments)
+
+      tagged.push({ locator, context })
+    }
+
+    return { kind: 'list', items: tagged.slice(-this.maxItems) }
+  }
+}
+
+async function ensureOnPage(page: Page, url: string, waitSeconds: number): Promise<void> {
+  if (!page.url().startsWith(url.replace(/\/$/, ''))) await navigateAndWait(page, url)
+  await page.waitForSelector('main', { timeout: 10000 })
+  await waitAndFocus(page, waitSeconds)
+}
+
+async function buildConversationContext(locator: Locator): Promise<Record<string, string>> {
+  const meta = await locator
+    .evaluate((el) => {
+      const link = el.querySelector('a[href*="/messaging/thread/"]')
+      const time = el.querySelector('time, .msg-conversation-listitem__time-stamp, .msg-conversation-card__time-stamp')
+      const unread =
+        /unread/.test(el.className) ||
+        !!el.querySelector('[class*="--unread"], .msg-conversation-card__unread-count, .notification-badge')
+
+      return {
+        threadUrl: link?.getAttribute('href') ?? '',
+        timestamp: time?.textContent?.replace(/\s+/g, ' ').trim() ?? '',
+        unread,
+      }
+    })
+    .catch(() => null)
+
+  if (!meta) return {}
+
+  const context: Record<string, string> = {}
+  if (meta.threadUrl) context.threadUrl = new URL(meta.threadUrl, 'https://www.linkedin.com').toString()
+  if (meta.timestamp) context.timestamp = meta.timestamp
+  if (meta.unread) context.unread = 'true'
+  return context
+}
+
+interface RawMessageMeta {
+  isMessage: boolean
+  heading: string | null
+  sender: string | null
+  senderUrl: string | null
+  time: string | null
+  urn: string | null
+  attachments: MessageAttachment[]
+}
+
+async function readMessageMeta(locator: Locator): Promise<RawMessageMeta> {
+  const fallback: RawMessageMeta = {
+    isMessage: false,
+    heading: null,
+    sender: null,
+    senderUrl: null,
+    time: null,
+    urn: null,
+    attachments: [],
+  }
+
+  return await locator
+    .evaluate((el) => {
+      const clean = (node: Element | null) => node?.textContent?.replace(/\s+/g, ' ').trim() || null
+      const senderLink = el.querySelector('a.msg-s-message-group__profile-link, a[href*="/in/"]')
+      const attachments: MessageAttachment[] = []
+
+      for (const anchor of Array.from(el.querySelectorAll('.msg-s-event-listitem__attachment-item a, a[download]'))) {
+        attachments.push({
+          kind: 'file',
+          name: clean(anchor) ?? undefined,
+          url: anchor.getAttribute('href') ?? undefined,
+        })
+      }
+      for (const img of Array.from(
+        el.querySelectorAll('.msg-s-event-listitem__image img, img.msg-s-event-listitem__image'),
+      )) {
+        attachments.push({
+          kind: 'image',
+          name: img.getAttribute('alt') || undefined,
+          url: img.getAttribute('src') ?? undefined,
+        })
+      }
+      for (const video of Array.from(el.querySelectorAll('video'))) {
+        attachments.push({
+          kind: 'video',
+          url: video.getAttribute('src') ?? video.querySelector('source')?.getAttribute('src') ?? undefined,
+        })
+      }
+      for (const anchor of Array.from(
+        el.querySelectorAll('.msg-s-event-listitem__link-preview a[href], [class*="link-preview"] a[href]'),
+      )) {
+        attachments.push({
+          kind: 'link',
+          name: clean(anchor) ?? undefined,
+          url: anchor.getAttribute('href') ?? undefined,
+        })
+      }
+
+      return {
+        isMessage:
+          !!el.querySelector('.msg-s-event-listitem__body, .msg-s-event__content, p') || attachments.length > 0,
+        heading: clean(el.querySelector('.msg-s-message-list__time-heading, time.msg-s-message-list__time-heading')),
+        sender: clean(el.querySelector('.msg-s-message-group__name, .msg-s-message-group__profile-link')),
+        senderUrl: senderLink?.getAttribute('href') ?? null,
+        time: clean(el.querySelector('.msg-s-message-group__timestamp')),
+        urn:
+          el.getAttribute('data-event-urn') ??
+          el.querySelector('[data-event-urn]')?.getAttribute('data-event-urn') ??
+          null,
+        attachments,
+      }
+    })
+    .catch(() => fallback)
+}
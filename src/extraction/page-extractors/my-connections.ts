@@ -0,0 +1,44 @@
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { loadMoreItems } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult } from './types'
+
+export interface MyConnectionsPageExtractorOptions {
+  /** Number of connection cards to skip */
+  offset?: number
+  /** Maximum number of cards to return after the offset */
+  limit?: number
+}
+
+/**
+ * Extracts a window of cards from the logged-in account's connections list.
+ * Expects the page to already be on the connections page; scrolls until the window is loaded.
+ */
+export class MyConnectionsPageExtractor implements PageExtractor {
+  readonly sectionName = 'my-connections'
+
+  private readonly offset: number
+  private readonly limit: number
+
+  constructor(options: MyConnectionsPageExtractorOptions = {}) {
+    this.offset = options.offset ?? 0
+    this.limit = options.limit ?? SCRAPING_CONSTANTS.MY_CONNECTIONS_BATCH_SIZE
+  }
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const maxRounds =
+      (config.scroll?.maxScrolls ?? SCRAPING_CONSTANTS.MY_CONNECTIONS_MAX_ROUNDS) +
+      Math.ceil(this.offset * SCRAPING_CONSTANTS.MY_CONNECTIONS_ROUNDS_PER_CARD)
+
+    const items = await loadMoreItems(config.page, this.sectionName, {
+      maxItems: this.offset + this.limit,
+      maxRounds,
+      maxStaleRounds: SCRAPING_CONSTANTS.MY_CONNECTIONS_MAX_STALE_ROUNDS,
+      pauseTime: config.scroll?.pauseTime ?? SCRAPING_CONSTANTS.MY_CONNECTIONS_SCROLL_PAUSE,
+    })
+
+    return {
+      kind: 'list',
+      items: items.slice(this.offset).map((locator) => ({ locator, context: {} })),
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import type { Locator } from 'playwright'
+import { closeModals } from '../../scrapers/utils'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, RawSection } from './types'
+
+const DIALOG_SELECTOR = 'dialog, [role="dialog"], .artdeco-modal'
+const TOP_CARD_SELECTOR = 'section.artdeco-card[data-member-id], main section.artdeco-card'
+const DETAILS_TRIGGER_SELECTOR = 'a:has-text("details"), button:has-text("details")'
+
+/** Card headings mapped to the RawSection heading used by OpenToWorkParser */
+const CARD_VARIANTS = [
+  ['Open to work', 'jobs'],
+  ['Providing services', 'services'],
+] as const
+
+/**
+ * Reads the "Open to work" and "Providing services" cards below the top card.
+ * Each card's details modal is opened when available; otherwise the card summary is used.
+ */
+export class OpenToWorkPageExtractor implements PageExtractor {
+  readonly sectionName = 'open-to-work'
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const data: RawSection[] = []
+
+    for (const [cardHeading, heading] of CARD_VARIANTS) {
+      const card = await this.findCard(config, cardHeading)
+      if (!card) continue
+
+      const summary = await readLines(card)
+      const details = await this.readDetailsModal(config, card)
+
+      data.push({
+        heading,
+        text: (details ?? summary).join('\n'),
+        labels: details ?? summary,
+        anchors: [],
+      })
+    }
+
+    return { kind: 'raw', data }
+  }
+
+  private async findCard(config: PageExtractorConfig, cardHeading: string): Promise<Locator | null> {
+    const topCard = config.page.locator(TOP_CARD_SELECTOR).first()
+    if ((await topCard.count()) === 0) return null
+
+    const heading = topCard.getByText(cardHeading, { exact: true }).first()
+    if ((await heading.count()) === 0) return null
+
+    const card = heading.locator('xpath=ancestor::*[self::section or self::li or self::div][2]').first()
+    return (await card.count()) > 0 ? card : null
+  }
+
+  private async readDetailsModal(config: PageExtractorConfig, card: Locator): Promise<string[] | null> {
+    const trigger = card.locator(DETAILS_TRIGGER_SELECTOR).first()
+    if ((await trigger.count()) === 0) return null
+
+    try {
+      await trigger.scrollIntoViewIfNeeded()
+      await Promise.all([
+        config.page.waitForSelector(DIALOG_SELECTOR, { state: 'visible', timeout: 7000 }),
+        trigger.click({ timeout: 7000 }),
+      ])
+
+      const lines = await readLines(config.page.locator(DIALOG_SELECTOR).first())
+      return lines.length > 0 ? lines : null
+    } catch {
+      return null
+    } finally {
+      await closeModals(config.page)
+    }
+  }
+}
+
+async function readLines(locator: Locator): Promise<string[]> {
+  const text = await locator.innerText({ timeout: 3000 }).catch(() => '')
+  return text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+}
@@ -1,4 +1,6 @@
+import type { Locator } from 'playwright'
 import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { normalizeProfileUrl } from '../../scrapers/person/utils'
 import {
   findItemsWithFallback,
   findSectionByHeading,
@@ -6,7 +8,9 @@ import {
   scrollSection,
   sectionHasContent,
 } from './helpers'
-import type { PageExtractor, PageExtractorConfig, PageExtractorResult } from './types'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, TaggedLocator } from './types'
+
+const INVENTORS_TOGGLE_SELECTOR = 'button:has-text("inventors"), button:has-text("see more")'
 
 export class PatentPageExtractor implements PageExtractor {
   readonly sectionName = 'patent'
@@ -14,10 +18,7 @@ export class PatentPageExtractor implements PageExtractor {
   async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
     const mainPageItems = await this.extractFromMainPage(config)
     if (mainPageItems.length > 0) {
-      return {
-        kind: 'list',
-        items: mainPageItems.map((locator) => ({ locator, context: {} })),
-      }
+      return { kind: 'list', items: await tagPatentItems(mainPageItems) }
     }
 
     const didNavigate = await navigateToSection(
@@ -38,10 +39,7 @@ export class PatentPageExtractor implements PageExtractor {
     })
 
     const detailsItems = await findItemsWithFallback(config.page, this.sectionName)
-    return {
-      kind: 'list',
-      items: detailsItems.map((locator) => ({ locator, context: {} })),
-    }
+    return { kind: 'list', items: await tagPatentItems(detailsItems) }
   }
 
   private async extractFromMainPage(config: PageExtractorConfig) {
@@ -51,3 +49,40 @@ export class PatentPageExtractor implements PageExtractor {
     return await section.locator('ul > li, ol > li').all()
   }
 }
+
+/**
+ * Expands collapsed inventor lists and records inventors as JSON in the item context.
+ * Inventor avatars often carry the name only in an aria-label or image alt text.
+ */
+async function tagPatentItems(items: Locator[]): Promise<TaggedLocator[]> {
+  const tagged: TaggedLocator[] = []
+
+  for (const locator of items) {
+    const toggle = locator.locator(INVENTORS_TOGGLE_SELECTOR).first()
+    try {
+      if (await toggle.isVisible({ timeout: 500 })) await toggle.click({ timeout: 2000 })
+    } catch {}
+
+    const anchors = await locator
+      .locator('a[href*="/in/"]')
+      .evaluateAll((elements) =>
+        elements.map((element) => ({
+          href: element.getAttribute('href') ?? '',
+          name:
+            element.textContent?.replace(/\s+/g, ' ').trim() ||
+            element.getAttribute('aria-label') ||
+            element.querySelector('img')?.getAttribute('alt') ||
+            '',
+        })),
+      )
+      .catch(() => [])
+
+    const inventors = anchors
+      .map((anchor) => ({ name: anchor.name.trim(), linkedinUrl: normalizeProfileUrl(anchor.href) ?? undefined }))
+      .filter((inventor) => inventor.name && inventor.linkedinUrl)
+
+    tagged.push({ locator, context: inventors.length > 0 ? { inventors: JSON.stringify(inventors) } : {} })
+  }
+
+  return tagged
+}
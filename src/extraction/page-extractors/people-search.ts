@@ -0,0 +1,39 @@
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { matchesSearchUrl, navigateAndWait, scrollPageToBottom, waitAndFocus } from '../../scrapers/utils'
+import { log } from '../../utils/logger'
+import { findItemsWithFallback } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult } from './types'
+
+const END_OF_RESULTS_TEXTS = ['No results found', 'reached the monthly limit for profile searches'] as const
+
+/**
+ * Extracts the result cards of a single people search results page.
+ * `config.baseUrl` is the full search URL for the page to load.
+ */
+export class PeopleSearchPageExtractor implements PageExtractor {
+  readonly sectionName = 'people-search'
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    if (!matchesSearchUrl(config.page.url(), config.baseUrl)) await navigateAndWait(config.page, config.baseUrl)
+    await waitAndFocus(config.page, config.focusWait ?? 1.5)
+
+    for (const text of END_OF_RESULTS_TEXTS) {
+      if ((await config.page.locator(`main :text("${text}")`).count()) > 0) {
+        log.info(`People search stopped: "${text}"`)
+        return { kind: 'list', items: [] }
+      }
+    }
+
+    await scrollPageToBottom(
+      config.page,
+      config.scroll?.pauseTime ?? SCRAPING_CONSTANTS.PEOPLE_SEARCH_SCROLL_PAUSE,
+      config.scroll?.maxScrolls ?? SCRAPING_CONSTANTS.PEOPLE_SEARCH_MAX_SCROLLS,
+    )
+
+    const items = await findItemsWithFallback(config.page, this.sectionName)
+    return {
+      kind: 'list',
+      items: items.map((locator) => ({ locator, context: {} })),
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import type { Locator } from 'playwright'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { clickAllSeeMoreButtons, waitAndFocus } from '../../scrapers/utils'
+import { findItemsWithFallback, findSectionRoot, loadMoreItems } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, TaggedLocator } from './types'
+
+const DIALOG_SELECTOR = 'dialog, [role="dialog"], .artdeco-modal'
+const REACTIONS_TRIGGER_SELECTORS = [
+  'button.social-details-social-counts__count-value',
+  'button[aria-label*="reactions" i]',
+  '.social-details-social-counts__reactions-count',
+] as const
+const LOAD_MORE_COMMENTS_SELECTOR =
+  'button.comments-comments-list__load-more-comments-button, button:has-text("Load more comments")'
+const COMMENT_SEE_MORE_SELECTOR = 'article button:has-text("see more")'
+const REACTION_TYPES = ['like', 'celebrate', 'support', 'love', 'insightful', 'funny', 'curious'] as const
+
+export interface PostEngagementPageExtractorOptions {
+  maxItems?: number
+}
+
+/**
+ * Opens the reactions modal of the current post and returns its reactor rows.
+ * The modal stays open so the returned locators remain valid; callers close it afterwards.
+ */
+export class PostReactionsPageExtractor implements PageExtractor {
+  readonly sectionName = 'post-reactions'
+
+  private readonly maxItems: number
+
+  constructor(options: PostEngagementPageExtractorOptions = {}) {
+    this.maxItems = options.maxItems ?? SCRAPING_CONSTANTS.POST_REACTIONS_DEFAULT_LIMIT
+  }
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const didOpen = await this.openReactionsModal(config)
+    if (!didOpen) return { kind: 'list', items: [] }
+
+    const locators = await loadMoreItems(config.page, this.sectionName, {
+      maxItems: this.maxItems,
+      maxRounds: config.scroll?.maxScrolls ?? SCRAPING_CONSTANTS.POST_REACTIONS_MAX_ROUNDS,
+      pauseTime: config.scroll?.pauseTime,
+      containerSelector: DIALOG_SELECTOR,
+    })
+
+    const items: TaggedLocator[] = []
+    for (const locator of locators) {
+      const reactionType = await detectReactionType(locator)
+      items.push({ locator, context: reactionType ? { reactionType } : {} })
+    }
+
+    return { kind: 'list', items }
+  }
+
+  private async openReactionsModal(config: PageExtractorConfig): Promise<boolean> {
+    for (const selector of REACTIONS_TRIGGER_SELECTORS) {
+      const trigger = config.page.locator(selector).first()
+      if ((await trigger.count()) === 0) continue
+
+      try {
+        await trigger.scrollIntoViewIfNeeded()
+        await Promise.all([
+          config.page.waitForSelector(DIALOG_SELECTOR, { state: 'visible', timeout: 7000 }),
+          trigger.click({ timeout: 7000 }),
+        ])
+        await waitAndFocus(config.page, config.focusWait ?? 1)
+        return true
+      } catch {}
+    }
+
+    return false
+  }
+}
+
+/**
+ * Expands the comment list of the current post and returns its comment entries.
+ */
+export class PostCommentsPageExtractor implements PageExtractor {
+  readonly sectionName = 'post-comments'
+
+  private readonly maxItems: number
+
+  constructor(options: PostEngagementPageExtractorOptions = {}) {
+    this.maxItems = options.maxItems ?? SCRAPING_CONSTANTS.POST_COMMENTS_DEFAULT_LIMIT
+  }
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const root = await findSectionRoot(config.page, this.sectionName)
+    await root.scrollIntoViewIfNeeded().catch(() => {})
+
+    const maxRounds = config.scroll?.maxScrolls ?? SCRAPING_CONSTANTS.POST_COMMENTS_MAX_ROUNDS
+    for (let round = 0; round < maxRounds; round++) {
+      const items = await findItemsWithFallback(config.page, this.sectionName)
+      if (items.length >= this.maxItems) break
+      if ((await clickAllSeeMoreButtons(config.page, 1, LOAD_MORE_COMMENTS_SELECTOR)) === 0) break
+    }
+
+    await clickAllSeeMoreButtons(config.page, this.maxItems, COMMENT_SEE_MORE_SELECTOR)
+
+    const items = await findItemsWithFallback(config.page, this.sectionName)
+    return {
+      kind: 'list',
+      items: items.slice(0, this.maxItems).map((locator) => ({ locator, context: {} })),
+    }
+  }
+}
+
+async function detectReactionType(locator: Locator): Promise<string | null> {
+  const icon = locator.locator('[data-test-reactions-icon-type], img[alt]').first()
+  if ((await icon.count()) === 0) return null
+
+  const raw =
+    (await icon.getAttribute('data-test-reactions-icon-type').catch(() => null)) ??
+    (await icon.getAttribute('alt').catch(() => null)) ??
+    ''
+  const lower = raw.toLowerCase()
+
+  if (lower.includes('praise') || lower.includes('clap')) return 'celebrate'
+  if (lower.includes('appreciation')) return 'support'
+  if (lower.includes('empathy')) return 'love'
+  if (lower.includes('interest')) return 'insightful'
+  if (lower.includes('entertainment')) return 'funny'
+
+  return REACTION_TYPES.find((type) => lower.includes(type)) ?? null
+}
@@ -0,0 +1,94 @@
+import type { Locator } from 'playwright'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { expandInlineText, loadMoreItems, navigateToSection, sectionHasContent } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, TaggedLocator } from './types'
+
+const MEDIA_TYPE_SELECTORS: Array<[string, string]> = [
+  ['video', '.update-components-linkedin-video, video'],
+  ['document', '.update-components-document, .document-s-container'],
+  ['poll', '.update-components-poll'],
+  ['article', '.update-components-article, .feed-shared-article'],
+  ['image', '.update-components-image, .feed-shared-image'],
+]
+
+const POST_REACTION_COUNT_SELECTOR =
+  '.social-details-social-counts__reactions-count, .social-details-social-counts__social-proof-fallback-number'
+
+const POST_SEE_MORE_SELECTOR =
+  'button.feed-shared-inline-show-more-text__see-more-less-toggle, button:has-text("…more")'
+
+export interface PostPageExtractorOptions {
+  maxPosts?: number
+}
+
+export class PostPageExtractor implements PageExtractor {
+  readonly sectionName = 'post'
+
+  private readonly maxPosts: number
+
+  constructor(options: PostPageExtractorOptions = {}) {
+    this.maxPosts = options.maxPosts ?? SCRAPING_CONSTANTS.POSTS_DEFAULT_LIMIT
+  }
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const didNavigate = await navigateToSection(
+      config.page,
+      config.baseUrl,
+      'recent-activity/all/',
+      config.focusWait ?? SCRAPING_CONSTANTS.POSTS_FOCUS_WAIT,
+    )
+
+    if (!didNavigate) return { kind: 'list', items: [] }
+
+    const hasContent = await sectionHasContent(config.page)
+    if (!hasContent) return { kind: 'list', items: [] }
+
+    const locators = await loadMoreItems(config.page, this.sectionName, {
+      maxItems: this.maxPosts,
+      maxRounds: config.scroll?.maxScrolls ?? SCRAPING_CONSTANTS.POSTS_MAX_ROUNDS,
+      pauseTime: config.scroll?.pauseTime ?? SCRAPING_CONSTANTS.POSTS_SCROLL_PAUSE,
+    })
+
+    const items: TaggedLocator[] = []
+    for (const locator of locators) {
+      await expandInlineText(locator, POST_SEE_MORE_SELECTOR)
+      items.push({ locator, context: await this.buildContext(locator) })
+    }
+
+    return { kind: 'list', items }
+  }
+
+  private async buildContext(locator: Locator): Promise<Record<string, string>> {
+    const context: Record<string, string> = { mediaType: await detectMediaType(locator) }
+
+    const urn =
+      (await locator.getAttribute('data-urn').catch(() => null)) ??
+      (await locator
+        .locator('[data-urn^="urn:li:activity"]')
+        .first()
+        .getAttribute('data-urn', { timeout: 1000 })
+        .catch(() => null))
+    if (urn) context.urn = urn
+
+    const reactionCount = await locator
+      .locator(POST_REACTION_COUNT_SELECTOR)
+      .first()
+      .innerText({ timeout: 1000 })
+      .catch(() => null)
+    if (reactionCount?.trim()) context.reactionCount = reactionCount.trim()
+
+    return context
+  }
+}
+
+async function detectMediaType(locator: Locator): Promise<string> {
+  for (const [mediaType, selector] of MEDIA_TYPE_SELECTORS) {
+    const count = await locator
+      .locator(selector)
+      .count()
+      .catch(() => 0)
+    if (count > 0) return mediaType
+  }
+
+  return 'none'
+}
@@ -0,0 +1,94 @@
+import type { Locator, Page } from 'playwright'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { waitAndFocus } from '../../scrapers/utils'
+import { expandInlineText, findItemsWithFallback, navigateToSection } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, RawSection } from './types'
+
+const TAB_ITEM_SELECTOR = '.pvs-list__paged-list-item, li:not(li li)'
+
+/**
+ * Recommendations are split into "Received" and "Given" tabs that share one panel slot.
+ * Each tab's cards are read while the tab is active and returned as raw sections whose
+ * heading is the recommendation type, so later tab switches cannot change what was read.
+ */
+export class RecommendationPageExtractor implements PageExtractor {
+  readonly sectionName = 'recommendation'
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const didNavigate = await navigateToSection(
+      config.page,
+      config.baseUrl,
+      'details/recommendations/',
+      config.focusWait ?? SCRAPING_CONSTANTS.RECOMMENDATIONS_FOCUS_WAIT,
+    )
+    if (!didNavigate) return { kind: 'raw', data: [] }
+
+    const tabs = await config.page.locator('[role="tab"], tab').all()
+    if (tabs.length === 0) {
+      const items = await findItemsWithFallback(config.page, this.sectionName)
+      return { kind: 'raw', data: await readItems(items, 'received') }
+    }
+
+    return { kind: 'raw', data: await this.extractItemsFromTabs(tabs, config.page) }
+  }
+
+  private async extractItemsFromTabs(tabs: Locator[], page: Page): Promise<RawSection[]> {
+    const collected: RawSection[] = []
+
+    for (const tab of tabs) {
+      const tabName = (await tab.textContent())?.trim().toLowerCase()
+      if (!tabName) continue
+
+      const type = tabName.includes('given') ? 'given' : tabName.includes('received') ? 'received' : null
+      if (!type) continue
+
+      try {
+        await tab.click()
+        await waitAndFocus(page, 0.8)
+      } catch {
+        continue
+      }
+
+      const tabpanel = await findTabPanel(page, tab)
+      if (!tabpanel) continue
+
+      collected.push(...(await readItems(await tabpanel.locator(TAB_ITEM_SELECTOR).all(), type)))
+    }
+
+    return collected
+  }
+}
+
+/** Resolve the panel a tab controls, falling back to the visible panel */
+async function findTabPanel(page: Page, tab: Locator): Promise<Locator | null> {
+  const panelId = await tab.getAttribute('aria-controls').catch(() => null)
+  if (panelId) {
+    const panel = page.locator(`[id="${panelId}"]`)
+    if ((await panel.count()) > 0) return panel.first()
+  }
+
+  const visible = page.locator('[role="tabpanel"]:visible, tabpanel:visible').first()
+  return (await visible.count()) > 0 ? visible : null
+}
+
+async function readItems(items: Locator[], type: string): Promise<RawSection[]> {
+  const sections: RawSection[] = []
+
+  for (const locator of items) {
+    await expandInlineText(locator)
+
+    const text = await locator.innerText().catch(() => '')
+    if (!text.trim()) continue
+
+    const anchors = await locator
+      .locator('a[href]')
+      .evaluateAll((nodes) =>
+        nodes.map((node) => ({ href: node.getAttribute('href'), text: node.textContent?.trim() || null })),
+      )
+      .catch(() => [])
+
+    sections.push({ heading: type, text, labels: [], anchors })
+  }
+
+  return sections
+}
@@ -0,0 +1,40 @@
+import type { RelatedProfile } from '../../models'
+import { waitAndFocus } from '../../scrapers/utils'
+import { findSectionByHeading, scrollSection } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, TaggedLocator } from './types'
+
+const SIDEBAR_HEADINGS: Array<[string, RelatedProfile['source']]> = [
+  ['People also viewed', 'people-also-viewed'],
+  ['People you may know', 'people-you-may-know'],
+]
+
+/**
+ * Related profiles are listed in the main profile's sidebar, so this extractor
+ * expects the page to still be on the profile itself. The sidebar cards render lazily,
+ * so the profile is scrolled and each sidebar brought into view before its cards are read.
+ * Each card is tagged with its sidebar.
+ */
+export class RelatedProfilePageExtractor implements PageExtractor {
+  readonly sectionName = 'related-profile'
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const tagged: TaggedLocator[] = []
+    await scrollSection(config.page, { pauseTime: 0.5, maxScrolls: 3 })
+
+    for (const [heading, source] of SIDEBAR_HEADINGS) {
+      const section = await findSectionByHeading(config.page, heading)
+      if (!section) continue
+
+      await section.scrollIntoViewIfNeeded({ timeout: 2000 }).catch(() => {})
+      await waitAndFocus(config.page, 0.5)
+
+      const items = await section.locator('li').all()
+      for (const locator of items) {
+        if ((await locator.locator('a[href*="/in/"]').count()) === 0) continue
+        tagged.push({ locator, context: { source } })
+      }
+    }
+
+    return { kind: 'list', items: tagged }
+  }
+}
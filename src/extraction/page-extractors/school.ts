@@ -0,0 +1,43 @@
+import type { Page } from 'playwright'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { CompanyPageExtractor } from './company'
+import { findSectionRoot, navigateToSection } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult, RawSection } from './types'
+
+const ALUMNI_HEADER_SELECTOR = 'h2:has-text("alumni"), .org-people__header-spacing-carousel h2'
+
+/**
+ * School pages share the organization layout with company pages, so the About tab is read
+ * like a company's. The alumni count comes from the People tab under the synthetic `alumni` heading.
+ */
+export class SchoolPageExtractor implements PageExtractor {
+  readonly sectionName = 'school'
+
+  private readonly companyExtractor = new CompanyPageExtractor()
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const focusWait = config.focusWait ?? SCRAPING_CONSTANTS.SCHOOL_FOCUS_WAIT
+    const didNavigate = await navigateToSection(config.page, config.baseUrl, 'about/', focusWait)
+
+    if (!didNavigate) return { kind: 'raw', data: [] }
+
+    const root = await findSectionRoot(config.page, this.companyExtractor.sectionName)
+    const data = await this.companyExtractor.extractRawSections(root)
+
+    const alumni = await this.extractAlumniSection(config.page, config.baseUrl, focusWait)
+    if (alumni) data.push(alumni)
+
+    return { kind: 'raw', data }
+  }
+
+  private async extractAlumniSection(page: Page, baseUrl: string, focusWait: number): Promise<RawSection | null> {
+    const didNavigate = await navigateToSection(page, baseUrl, 'people/', focusWait)
+    if (!didNavigate) return null
+
+    const header = page.locator(ALUMNI_HEADER_SELECTOR).first()
+    const text = (await header.textContent({ timeout: 2000 }).catch(() => null))?.replace(/\s+/g, ' ').trim()
+    if (!text) return null
+
+    return { heading: 'alumni', text, labels: [], anchors: [] }
+  }
+}
@@ -3,6 +3,14 @@ import type { PageExtractor, PageExtractorConfig, PageExtractorResult } from './
 
 const ROOT_SELECTORS = ['section.artdeco-card[data-member-id]', 'main section.artdeco-card'] as const
 
+const PHOTO_SELECTOR =
+  'img.pv-top-card-profile-picture__image--show, img.pv-top-card-profile-picture__image, .pv-top-card-profile-picture img'
+const BANNER_SELECTOR = '#profile-background-image-target-image, .profile-background-image img'
+const VERIFIED_SELECTOR = '[aria-label*="verified" i], svg[data-test-icon*="verified"]'
+const PREMIUM_SELECTOR = '[aria-label*="premium" i], .pv-member-badge--for-top-card, li-icon[type*="premium"]'
+const CURRENT_COMPANY_SELECTOR = '[aria-label^="Current company:"]'
+const EDUCATION_SELECTOR = '[aria-label^="Education:"]'
+
 export class TopCardPageExtractor implements PageExtractor {
   readonly sectionName = 'top-card'
 
@@ -12,7 +20,7 @@ export class TopCardPageExtractor implements PageExtractor {
     return {
       kind: 'single',
       element: root,
-      context: {},
+      context: await this.buildContext(root),
     }
   }
 
@@ -24,4 +32,61 @@ export class TopCardPageExtractor implements PageExtractor {
 
     return config.page.locator('main').first()
   }
+
+  /**
+   * Collects top card details that are only available as attributes (images, badges,
+   * aria-labelled shortcuts). Keys are only set when the detail is present.
+   */
+  private async buildContext(root: Locator): Promise<Record<string, string>> {
+    const context: Record<string, string> = {}
+
+    const photo = root.locator(PHOTO_SELECTOR).first()
+    const photoUrl = await getAttribute(photo, 'src')
+    if (photoUrl && !photoUrl.startsWith('data:')) context.photoUrl = photoUrl
+
+    const photoTitle = (await getAttribute(photo, 'title')) ?? ''
+    if (/#HIRING/i.test(photoTitle) || (await hasMatch(root, 'text=/^#?Hiring$/i'))) context.hiring = 'true'
+
+    const bannerUrl = await getAttribute(root.locator(BANNER_SELECTOR).first(), 'src')
+    if (bannerUrl && !bannerUrl.startsWith('data:')) context.bannerUrl = bannerUrl
+
+    if (await hasMatch(root, VERIFIED_SELECTOR)) context.verified = 'true'
+    if (await hasMatch(root, PREMIUM_SELECTOR)) context.premium = 'true'
+
+    const currentCompany = await getShortcutLabel(root, CURRENT_COMPANY_SELECTOR)
+    if (currentCompany) context.currentCompany = currentCompany
+
+    const education = await getShortcutLabel(root, EDUCATION_SELECTOR)
+    if (education) context.education = education
+
+    return context
+  }
+}
+
+async function getAttribute(locator: Locator, name: string): Promise<string | null> {
+  if ((await locator.count().catch(() => 0)) === 0) return null
+  return await locator.getAttribute(name, { timeout: 1000 }).catch(() => null)
+}
+
+async function hasMatch(root: Locator, selector: string): Promise<boolean> {
+  return (
+    (await root
+      .locator(selector)
+      .count()
+      .catch(() => 0)) > 0
+  )
+}
+
+/**
+ * Reads shortcut buttons such as "Current company: Northwind. Click to skip to experience card".
+ */
+async function getShortcutLabel(root: Locator, selector: string): Promise<string | null> {
+  const label = await getAttribute(root.locator(selector).first(), 'aria-label')
+  if (!label) return null
+
+  const value = label
+    .replace(/^[^:]+:\s*/, '')
+    .replace(/\.\s*Click to skip.*$/i, '')
+    .trim()
+  return value || null
 }
@@ -0,0 +1,32 @@
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { findItemsWithFallback, navigateToSection, scrollSection, sectionHasContent } from './helpers'
+import type { PageExtractor, PageExtractorConfig, PageExtractorResult } from './types'
+
+export class VolunteeringPageExtractor implements PageExtractor {
+  readonly sectionName = 'volunteering'
+
+  async extract(config: PageExtractorConfig): Promise<PageExtractorResult> {
+    const didNavigate = await navigateToSection(
+      config.page,
+      config.baseUrl,
+      'details/volunteering-experiences/',
+      config.focusWait ?? SCRAPING_CONSTANTS.VOLUNTEERING_FOCUS_WAIT,
+    )
+
+    if (!didNavigate) return { kind: 'list', items: [] }
+
+    const hasContent = await sectionHasContent(config.page)
+    if (!hasContent) return { kind: 'list', items: [] }
+
+    await scrollSection(config.page, {
+      pauseTime: config.scroll?.pauseTime ?? SCRAPING_CONSTANTS.VOLUNTEERING_SCROLL_PAUSE,
+      maxScrolls: config.scroll?.maxScrolls ?? SCRAPING_CONSTANTS.VOLUNTEERING_MAX_SCROLLS,
+    })
+
+    const items = await findItemsWithFallback(config.page, this.sectionName)
+    return {
+      kind: 'list',
+      items: items.map((locator) => ({ locator, context: {} })),
+    }
+  }
+}
@@ -0,0 +1,324 @@
+import type { AccomplishmentCategory, AccomplishmentOf } from '../../models/person'
+import { isDateLine, normalizeProfileUrl, parseDateRange, toPlainText } from '../../scrapers/person/utils'
+import type { ExtractedLink } from '../text-extractors'
+import { PatentParser } from './patent-parser'
+import type { ParseInput, Parser } from './types'
+
+const MONTH_PATTERN = /\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\b/i
+const ASSOCIATED_PREFIX = /^associated with\s+/i
+const ACCOMPLISHMENT_NOISE = new Set([
+  'show credential',
+  'see credential',
+  'show publication',
+  'show project',
+  'other authors',
+  'other contributors',
+  'see publication',
+  'see project',
+])
+
+/**
+ * Parses one accomplishment category into its typed shape. `parseItem` receives the
+ * item title and the remaining lines with noise already removed.
+ */
+abstract class CategoryParser<C extends AccomplishmentCategory> implements Parser<AccomplishmentOf<C>> {
+  abstract readonly sectionName: C
+
+  parse(input: ParseInput): AccomplishmentOf<C> | null {
+    const texts = input.texts.map((text) => text.trim()).filter(Boolean)
+    const title = texts[0]
+    if (!title || title.length > 200) return null
+
+    const lines = texts.slice(1).filter((text) => !ACCOMPLISHMENT_NOISE.has(text.toLowerCase()))
+    return this.parseItem(title, lines, input.links, toPlainText(input.texts))
+  }
+
+  validate(item: AccomplishmentOf<C>): boolean {
+    return !!item.title && item.title.length <= 200
+  }
+
+  protected abstract parseItem(
+    title: string,
+    lines: string[],
+    links: ExtractedLink[],
+    plainText: string | undefined,
+  ): AccomplishmentOf<C> | null
+}
+
+export class CertificationParser extends CategoryParser<'certification'> {
+  readonly sectionName = 'certification'
+
+  protected parseItem(title: string, lines: string[], links: ExtractedLink[], plainText?: string) {
+    const item: AccomplishmentOf<'certification'> = { category: 'certification', title, plainText }
+
+    for (const text of lines) {
+      if (text.includes('Issued by')) {
+        const parts = splitDot(text)
+        item.issuer = parts[0]?.replace('Issued by', '').trim() || item.issuer
+        item.issuedDate = parts[1] || item.issuedDate
+        continue
+      }
+
+      if (text.startsWith('Issued ')) {
+        const [issued, expires] = splitDot(text)
+        item.issuedDate = issued?.replace('Issued ', '').trim() || item.issuedDate
+        if (expires?.startsWith('Expire')) item.expirationDate = expires.replace(/^Expire[sd]\s*/, '').trim()
+        continue
+      }
+
+      if (text.startsWith('Credential ID')) {
+        item.credentialId = text.replace('Credential ID', '').trim() || item.credentialId
+        continue
+      }
+
+      if (!item.issuer) {
+        item.issuer = text
+        continue
+      }
+
+      if (!item.issuedDate && MONTH_PATTERN.test(text)) {
+        item.issuedDate = splitDot(text)[0] || text
+        continue
+      }
+
+      if (!item.description && isDescriptionText(text)) item.description = text
+    }
+
+    item.credentialUrl =
+      links.find((link) => link.url.includes('credential') || link.url.includes('verify'))?.url ?? links[0]?.url
+
+    return item
+  }
+}
+
+export class HonorParser extends CategoryParser<'honor'> {
+  readonly sectionName = 'honor'
+
+  protected parseItem(title: string, lines: string[], _links: ExtractedLink[], plainText?: string) {
+    const item: AccomplishmentOf<'honor'> = { category: 'honor', title, plainText }
+    const description: string[] = []
+
+    for (const text of lines) {
+      if (ASSOCIATED_PREFIX.test(text)) {
+        item.associatedWith = text.replace(ASSOCIATED_PREFIX, '').trim()
+        continue
+      }
+
+      if (!item.issuer && /^issued by\s+/i.test(text)) {
+        const parts = splitDot(text)
+        item.issuer = parts[0]?.replace(/^issued by\s+/i, '').trim()
+        item.issuedDate = parts[1]
+        continue
+      }
+
+      if (!item.issuedDate && MONTH_PATTERN.test(text) && !isDescriptionText(text)) {
+        item.issuedDate = text.replace(/^Issued\s+/, '')
+        continue
+      }
+
+      description.push(text)
+    }
+
+    item.description = description.join('\n') || undefined
+    return item
+  }
+}
+
+export class PublicationParser extends CategoryParser<'publication'> {
+  readonly sectionName = 'publication'
+
+  protected parseItem(title: string, lines: string[], links: ExtractedLink[], plainText?: string) {
+    const item: AccomplishmentOf<'publication'> = { category: 'publication', title, coAuthors: [], plainText }
+    const description: string[] = []
+
+    for (const text of lines) {
+      if (!item.publisher && !item.date && !isDescriptionText(text)) {
+        const parts = splitDot(text)
+        const datePart = parts.find((part) => MONTH_PATTERN.test(part) || /^\d{4}$/.test(part))
+        item.date = datePart
+        item.publisher = parts.find((part) => part !== datePart)
+        continue
+      }
+
+      description.push(text)
+    }
+
+    item.coAuthors = collectMemberNames(links)
+    item.url = links.find((link) => !normalizeProfileUrl(link.url))?.url
+    item.description = description.join('\n') || undefined
+    return item
+  }
+}
+
+export class CourseParser extends CategoryParser<'course'> {
+  readonly sectionName = 'course'
+
+  protected parseItem(title: string, lines: string[], _links: ExtractedLink[], plainText?: string) {
+    const item: AccomplishmentOf<'course'> = { category: 'course', title, plainText }
+
+    for (const text of lines) {
+      if (ASSOCIATED_PREFIX.test(text)) {
+        item.associatedWith = text.replace(ASSOCIATED_PREFIX, '').trim()
+        continue
+      }
+
+      if (!item.number && text.length <= 40) {
+        item.number = text.replace(/^course number:?\s*/i, '')
+        continue
+      }
+
+      if (!item.description && isDescriptionText(text)) item.description = text
+    }
+
+    return item
+  }
+}
+
+export class ProjectParser extends CategoryParser<'project'> {
+  readonly sectionName = 'project'
+
+  protected parseItem(title: string, lines: string[], links: ExtractedLink[], plainText?: string) {
+    const item: AccomplishmentOf<'project'> = { category: 'project', title, contributors: [], plainText }
+    const description: string[] = []
+
+    for (const text of lines) {
+      if (!item.fromDate && isDateLine(text)) {
+        const parsed = parseDateRange(text)
+        item.fromDate = parsed.fromDate ?? undefined
+        item.toDate = parsed.toDate ?? undefined
+        continue
+      }
+
+      if (ASSOCIATED_PREFIX.test(text)) {
+        item.associatedWith = text.replace(ASSOCIATED_PREFIX, '').trim()
+        continue
+      }
+
+      description.push(text)
+    }
+
+    item.contributors = collectMemberNames(links)
+    item.url = links.find((link) => !normalizeProfileUrl(link.url))?.url
+    item.description = description.join('\n') || undefined
+    return item
+  }
+}
+
+export class LanguageParser extends CategoryParser<'language'> {
+  readonly sectionName = 'language'
+
+  protected parseItem(title: string, lines: string[], _links: ExtractedLink[], plainText?: string) {
+    return {
+      category: 'language' as const,
+      title,
+      proficiency: lines.find((text) => /proficiency/i.test(text)) ?? lines[0],
+      plainText,
+    }
+  }
+}
+
+export class OrganizationParser extends CategoryParser<'organization'> {
+  readonly sectionName = 'organization'
+
+  protected parseItem(title: string, lines: string[], _links: ExtractedLink[], plainText?: string) {
+    const item: AccomplishmentOf<'organization'> = { category: 'organization', title, plainText }
+    const description: string[] = []
+
+    for (const text of lines) {
+      if (!item.fromDate && isDateLine(text)) {
+        const parts = splitDot(text)
+        const datePart = parts.find((part) => isDateLine(part)) ?? text
+        const parsed = parseDateRange(datePart)
+        item.fromDate = parsed.fromDate ?? undefined
+        item.toDate = parsed.toDate ?? undefined
+        item.position = parts.find((part) => part !== datePart)
+        continue
+      }
+
+      if (ASSOCIATED_PREFIX.test(text)) {
+        item.associatedWith = text.replace(ASSOCIATED_PREFIX, '').trim()
+        continue
+      }
+
+      if (!item.position && !item.fromDate && !isDescriptionText(text)) {
+        item.position = text
+        continue
+      }
+
+      description.push(text)
+    }
+
+    item.description = description.join('\n') || undefined
+    return item
+  }
+}
+
+export class TestScoreParser extends CategoryParser<'test-score'> {
+  readonly sectionName = 'test-score'
+
+  protected parseItem(title: string, lines: string[], _links: ExtractedLink[], plainText?: string) {
+    const item: AccomplishmentOf<'test-score'> = { category: 'test-score', title, plainText }
+    const description: string[] = []
+
+    for (const text of lines) {
+      if (!item.score && /^score:?\s*/i.test(text)) {
+        const [score, date] = splitDot(text)
+        item.score = score?.replace(/^score:?\s*/i, '').trim()
+        item.date = date || item.date
+        continue
+      }
+
+      if (ASSOCIATED_PREFIX.test(text)) {
+        item.associatedWith = text.replace(ASSOCIATED_PREFIX, '').trim()
+        continue
+      }
+
+      if (!item.date && (MONTH_PATTERN.test(text) || /^\d{4}$/.test(text)) && !isDescriptionText(text)) {
+        item.date = text
+        continue
+      }
+
+      description.push(text)
+    }
+
+    item.description = description.join('\n') || undefined
+    return item
+  }
+}
+
+/**
+ * Patents listed under accomplishments reuse PatentParser and are tagged with their category.
+ */
+export class PatentAccomplishmentParser implements Parser<AccomplishmentOf<'patent'>> {
+  readonly sectionName = 'patent'
+
+  private readonly patentParser = new PatentParser()
+
+  parse(input: ParseInput): AccomplishmentOf<'patent'> | null {
+    const patent = this.patentParser.parse(input)
+    return patent ? { category: 'patent', ...patent } : null
+  }
+
+  validate(item: AccomplishmentOf<'patent'>): boolean {
+    return this.patentParser.validate(item)
+  }
+}
+
+function splitDot(text: string): string[] {
+  return text
+    .split('·')
+    .map((part) => part.trim())
+    .filter(Boolean)
+}
+
+function isDescriptionText(text: string): boolean {
+  return text.split(/\s+/).length > 8 || text.length > 80
+}
+
+function collectMemberNames(links: ExtractedLink[]): string[] {
+  const names = links
+    .filter((link) => !!normalizeProfileUrl(link.url))
+    .map((link) => link.text.trim())
+    .filter(Boolean)
+  return [...new Set(names)]
+}
@@ -1,78 +1,46 @@
-import type { Accomplishment } from '../../models'
-import { toPlainText } from '../../scrapers/person/utils'
+import type { Accomplishment, AccomplishmentCategory } from '../../models'
+import {
+  CertificationParser,
+  CourseParser,
+  HonorParser,
+  LanguageParser,
+  OrganizationParser,
+  PatentAccomplishmentParser,
+  ProjectParser,
+  PublicationParser,
+  TestScoreParser,
+} from './accomplishment-category-parsers'
 import type { ParseInput, Parser } from './types'
 
+const CATEGORY_PARSERS: { [C in AccomplishmentCategory]: Parser<Extract<Accomplishment, { category: C }>> } = {
+  certification: new CertificationParser(),
+  honor: new HonorParser(),
+  publication: new PublicationParser(),
+  patent: new PatentAccomplishmentParser(),
+  course: new CourseParser(),
+  project: new ProjectParser(),
+  language: new LanguageParser(),
+  organization: new OrganizationParser(),
+  'test-score': new TestScoreParser(),
+}
+
+/**
+ * Dispatches accomplishment items to the parser for their category (from the item context).
+ */
 export class AccomplishmentParser implements Parser<Accomplishment> {
   readonly sectionName = 'accomplishment'
 
   parse(input: ParseInput): Accomplishment | null {
-    const texts = input.texts.map((text) => text.trim()).filter(Boolean)
-    const title = texts[0]
-
-    if (!title || title.length > 200) return null
-
-    const category = input.context.category ?? 'unknown'
-    let issuer: string | undefined
-    let issuedDate: string | undefined
-    let credentialId: string | undefined
-    let description: string | undefined
-
-    for (const text of texts.slice(1)) {
-      if (text.includes('Issued by')) {
-        const parts = text.split('·').map((part) => part.trim())
-        issuer = parts[0]?.replace('Issued by', '').trim() || issuer
-        issuedDate = parts[1] || issuedDate
-        continue
-      }
-
-      if (text.startsWith('Issued ')) {
-        issuedDate = text.replace('Issued ', '').trim() || issuedDate
-        continue
-      }
-
-      if (text.startsWith('Credential ID')) {
-        credentialId = text.replace('Credential ID', '').trim() || credentialId
-        continue
-      }
-
-      if (!issuer) {
-        issuer = text
-        continue
-      }
-
-      if (!issuedDate && looksLikeDate(text)) {
-        issuedDate = text.includes('·') ? text.split('·')[0]?.trim() || text : text
-        continue
-      }
-
-      if (!description && looksLikeDescription(text)) description = text
-    }
-
-    const credentialUrl =
-      input.links.find((link) => link.url.includes('credential') || link.url.includes('verify'))?.url ??
-      input.links[0]?.url
-
-    return {
-      category,
-      title,
-      issuer,
-      issuedDate,
-      credentialId,
-      credentialUrl,
-      description,
-      plainText: toPlainText(input.texts),
-    }
+    const parser = getCategoryParser(input.context.category)
+    return parser ? parser.parse(input) : null
   }
 
   validate(item: Accomplishment): boolean {
-    return !!item.title && item.title.length <= 200
+    return getCategoryParser(item.category)?.validate(item) ?? false
   }
 }
 
-function looksLikeDate(text: string): boolean {
-  return /\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\b/i.test(text)
-}
-
-function looksLikeDescription(text: string): boolean {
-  return text.split(/\s+/).length > 8 || text.length > 80
+function getCategoryParser(category: string | undefined): Parser<Accomplishment> | null {
+  if (!category || !(category in CATEGORY_PARSERS)) return null
+  return CATEGORY_PARSERS[category as AccomplishmentCategory] as Parser<Accomplishment>
 }
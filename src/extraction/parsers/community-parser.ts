@@ -0,0 +1,90 @@
+import type { GroupData, NewsletterData } from '../../models'
+import { parseCount } from '../../scrapers/utils'
+import type { RawSection } from '../page-extractors'
+import type { ParseInput, RawParser } from './types'
+
+/** Group fields read from the page; the scraper supplies `linkedinUrl` */
+export type GroupAbout = Omit<GroupData, 'linkedinUrl'>
+
+/** Newsletter fields read from the page; the scraper supplies `linkedinUrl` */
+export type NewsletterAbout = Omit<NewsletterData, 'linkedinUrl'>
+
+interface CommunityFields {
+  name?: string
+  description?: string
+  owner?: string
+  ownerUrl?: string
+  countLabels: string[]
+}
+
+export class GroupParser implements RawParser<GroupAbout> {
+  readonly sectionName = 'group'
+
+  parse(_input: ParseInput): GroupAbout | null {
+    return null
+  }
+
+  parseRaw(sections: RawSection[]): GroupAbout[] {
+    const { countLabels, ...fields } = readCommunityFields(sections)
+    if (!fields.name) return []
+
+    return [{ ...fields, memberCount: findCount(countLabels, /\bmembers?\b/i) }]
+  }
+
+  validate(item: GroupAbout): boolean {
+    return !!item.name
+  }
+}
+
+export class NewsletterParser implements RawParser<NewsletterAbout> {
+  readonly sectionName = 'newsletter'
+
+  parse(_input: ParseInput): NewsletterAbout | null {
+    return null
+  }
+
+  parseRaw(sections: RawSection[]): NewsletterAbout[] {
+    const { countLabels, ...fields } = readCommunityFields(sections)
+    if (!fields.name) return []
+
+    return [{ ...fields, subscriberCount: findCount(countLabels, /\bsubscribers?\b/i) }]
+  }
+
+  validate(item: NewsletterAbout): boolean {
+    return !!item.name
+  }
+}
+
+function readCommunityFields(sections: RawSection[]): CommunityFields {
+  const fields: CommunityFields = { countLabels: [] }
+
+  for (const section of sections) {
+    const value = section.text.trim()
+    if (!value) continue
+
+    switch (section.heading) {
+      case 'name':
+        fields.name = value
+        break
+      case 'about':
+        fields.description = value
+        break
+      case 'counts':
+        fields.countLabels = section.labels.length > 0 ? section.labels : [value]
+        break
+      case 'owner': {
+        fields.owner = value
+        const href = section.anchors.find((anchor) => !!anchor.href)?.href
+        if (href) fields.ownerUrl = new URL(href, 'https://www.linkedin.com').toString()
+        break
+      }
+    }
+  }
+
+  return fields
+}
+
+function findCount(labels: string[], pattern: RegExp): number | undefined {
+  const label = labels.find((text) => pattern.test(text))
+  return label ? parseCount(label) : undefined
+}
@@ -0,0 +1,72 @@
+import type { CompanyData } from '../../models'
+import { parseCount } from '../../scrapers/utils'
+import type { RawSection } from '../page-extractors'
+import type { ParseInput, RawParser } from './types'
+
+/** Company fields read from the page; the scraper supplies `linkedinUrl` */
+export type CompanyAbout = Omit<CompanyData, 'linkedinUrl'>
+
+export class CompanyParser implements RawParser<CompanyAbout> {
+  readonly sectionName = 'company'
+
+  parse(_input: ParseInput): CompanyAbout | null {
+    return null
+  }
+
+  parseRaw(sections: RawSection[]): CompanyAbout[] {
+    const company: CompanyAbout = { specialties: [] }
+
+    for (const section of sections) {
+      const value = section.text.trim()
+      if (!value) continue
+
+      switch (section.heading) {
+        case 'name':
+          company.name = value
+          break
+        case 'tagline':
+          company.tagline = value
+          break
+        case 'overview':
+          company.about = value
+          break
+        case 'summary': {
+          const followers = section.labels.find((label) => /\bfollowers?\b/i.test(label))
+          if (followers) company.followerCount = parseCount(followers)
+          break
+        }
+        case 'website':
+          company.website = section.anchors.find((anchor) => !!anchor.href)?.href ?? value
+          break
+        case 'industry':
+          company.industry = value
+          break
+        case 'company size':
+          company.companySize = value
+          break
+        case 'headquarters':
+          company.headquarters = value
+          break
+        case 'founded':
+          company.founded = value
+          break
+        case 'specialties':
+          company.specialties = splitSpecialties(value)
+          break
+      }
+    }
+
+    return company.name ? [company] : []
+  }
+
+  validate(item: CompanyAbout): boolean {
+    return !!item.name
+  }
+}
+
+function splitSpecialties(value: string): string[] {
+  return value
+    .split(/,\s*/)
+    .map((part) => part.replace(/^and\s+/i, '').trim())
+    .filter(Boolean)
+}
@@ -0,0 +1,49 @@
+import type { Connection } from '../../models'
+import { normalizeProfileUrl, toPlainText } from '../../scrapers/person/utils'
+import type { ParseInput, Parser } from './types'
+
+const CONNECTED_PREFIX = /^connected\s+(?:on\s+)?/i
+const ACTION_LABELS = new Set(['message', 'remove connection', 'more actions'])
+const MEMBER_LABEL_PREFIX = /^member['’]s (?:name|occupation)$/i
+
+/**
+ * Parses a card of the logged-in account's connections list:
+ * name, headline and the "Connected on ..." line.
+ */
+export class ConnectionParser implements Parser<Connection> {
+  readonly sectionName = 'my-connections'
+
+  parse(input: ParseInput): Connection | null {
+    const linkedinUrl = input.links.map((link) => normalizeProfileUrl(link.url)).find((url) => !!url)
+    if (!linkedinUrl) return null
+
+    const texts = input.texts.map((text) => text.trim()).filter(Boolean)
+    let connectedOn: string | undefined
+    const content: string[] = []
+
+    for (const text of texts) {
+      if (CONNECTED_PREFIX.test(text)) {
+        connectedOn ??= text.replace(CONNECTED_PREFIX, '').trim() || undefined
+        continue
+      }
+
+      if (ACTION_LABELS.has(text.toLowerCase()) || MEMBER_LABEL_PREFIX.test(text)) continue
+      content.push(text)
+    }
+
+    const name = content[0]
+    if (!name) return null
+
+    return {
+      name,
+      headline: content[1],
+      linkedinUrl,
+      connectedOn,
+      plainText: toPlainText(texts),
+    }
+  }
+
+  validate(item: Connection): boolean {
+    return !!item.name && item.name !== 'LinkedIn Member' && !!item.linkedinUrl
+  }
+}
@@ -1,46 +1,81 @@
 import type { Education } from '../../models'
-import { parseDateRange, toPlainText } from '../../scrapers/person/utils'
+import { isDateLine, parseDateRange, toPlainText } from '../../scrapers/person/utils'
 import type { ParseInput, Parser } from './types'
 
+const SEE_MORE_PATTERN = /^(?:…|\.\.\.)?\s*see (?:more|less)$/i
+const GRADE_PREFIX = /^grade:\s*/i
+const ACTIVITIES_PREFIX = /^activities and societies:\s*/i
+const SKILLS_PREFIX = /^skills:\s*/i
+const SINGLE_DATE_PATTERN = /^(?:[A-Z][a-z]{2} )?\d{4}$/
+
 export class EducationParser implements Parser<Education> {
   readonly sectionName = 'education'
 
   parse(input: ParseInput): Education | null {
-    const texts = input.texts.map((t) => t.trim()).filter(Boolean)
+    const texts = input.texts.map((t) => t.trim()).filter((t) => t && !SEE_MORE_PATTERN.test(t))
     if (texts.length === 0) return null
 
     const institutionName = texts[0] ?? ''
     if (!institutionName) return null
 
-    let degree: string | undefined
-    let dateStr = ''
-
-    if (texts.length >= 3) {
-      degree = texts[1] || undefined
-      dateStr = texts[2] ?? ''
-    } else if (texts.length === 2) {
-      const second = texts[1] ?? ''
-      if (second.includes(' - ') || /\d/.test(second)) dateStr = second
-      else {
-        degree = second || undefined
-      }
-    }
-
-    const { fromDate, toDate } = parseDateRange(dateStr)
-    const description = texts.length > 3 ? texts.slice(3).join('\n').trim() || undefined : undefined
-
-    return {
+    const education: Education = {
       institutionName,
-      degree: degree?.trim() || undefined,
       linkedinUrl: input.links[0]?.url,
-      fromDate: fromDate ?? undefined,
-      toDate: toDate ?? undefined,
-      description,
       plainText: toPlainText(texts),
     }
+    const descriptionLines: string[] = []
+
+    for (const [index, line] of texts.slice(1).entries()) {
+      if (GRADE_PREFIX.test(line)) {
+        education.grade = line.replace(GRADE_PREFIX, '').trim() || undefined
+        continue
+      }
+
+      if (ACTIVITIES_PREFIX.test(line)) {
+        education.activitiesAndSocieties = line.replace(ACTIVITIES_PREFIX, '').trim() || undefined
+        continue
+      }
+
+      if (SKILLS_PREFIX.test(line)) continue
+
+      if (!education.fromDate && (isDateLine(line) || SINGLE_DATE_PATTERN.test(line))) {
+        const { fromDate, toDate } = parseDateRange(line)
+        education.fromDate = fromDate ?? undefined
+        education.toDate = toDate ?? undefined
+        continue
+      }
+
+      // The degree line, when present, directly follows the institution name.
+      if (index === 0) {
+        const [degree, fieldOfStudy] = splitDegree(line)
+        education.degree = degree
+        education.fieldOfStudy = fieldOfStudy
+        continue
+      }
+
+      descriptionLines.push(line)
+    }
+
+    education.description = descriptionLines.join('\n').trim() || undefined
+    return education
   }
 
   validate(item: Education): boolean {
     return !!item.institutionName && item.institutionName.length > 0
   }
 }
+
+/**
+ * Splits "Bachelor of Science - BS, Computer Science" into degree and field of study.
+ * A short all-caps abbreviation after the comma ("Master of Business Administration, MBA, Finance")
+ * still belongs to the degree.
+ */
+function splitDegree(line: string): [string | undefined, string | undefined] {
+  const segments = line.split(', ').map((segment) => segment.trim())
+  let degreeEnd = 1
+  while (degreeEnd < segments.length - 1 && /^[A-Z][A-Z.]{1,7}$/.test(segments[degreeEnd] ?? '')) degreeEnd++
+
+  const degree = segments.slice(0, degreeEnd).join(', ')
+  const fieldOfStudy = segments.slice(degreeEnd).join(', ')
+  return [degree || undefined, fieldOfStudy || undefined]
+}
@@ -1,26 +1,48 @@
-import type { Experience, Position } from '../../models/person'
-import { isDateLine, isDescriptionLike, isLocationLike, parseDateRange, toPlainText } from '../../scrapers/person/utils'
+import type { Experience, Position, PositionMedia } from '../../models/person'
+import { isDateLine, isLocationLike, parseDateRange, toPlainText } from '../../scrapers/person/utils'
 import type { ExtractedLink } from '../text-extractors'
 import type { ParseInput, Parser } from './types'
 
+const SKILLS_PREFIX = /^skills:\s*/i
+const SEE_MORE_PATTERN = /^(?:…|\.\.\.)?\s*see (?:more|less)$/i
+const TRAILING_SEE_MORE = /\s*(?:…|\.\.\.)\s*see more$/i
+const COMPANY_URL_PATTERN = /linkedin\.com\/(?:company|school)\/|^\/(?:company|school)\//
+
 export class ExperienceParser implements Parser<Experience> {
   readonly sectionName = 'experience'
 
   parse(input: ParseInput): Experience | null {
-    const texts = input.texts.map((t) => t.trim()).filter(Boolean)
+    const media = parseMediaContext(input.context.media)
+    const mediaTitles = new Set(media.map((item) => item.title).filter(Boolean))
+    const withoutMedia = (lines: string[]) => lines.map((t) => t.trim()).filter((t) => t && !mediaTitles.has(t))
+
+    const texts = withoutMedia(input.texts)
     if (texts.length === 0) return null
 
+    const companyUrl = input.links.find((link) => COMPANY_URL_PATTERN.test(link.url))?.url
+
     if (input.subItems && input.subItems.length > 0) {
       const company = texts[0] ?? undefined
-      const positions = input.subItems
-        .map((subItem) => parsePosition(subItem.texts))
-        .filter((position): position is Position => !!position)
+      const positions: Position[] = []
+      const assigned = new Set<PositionMedia>()
+
+      for (const subItem of input.subItems) {
+        const position = parsePosition(withoutMedia(subItem.texts))
+        if (!position) continue
 
-      if (positions.length === 0) return null
+        const subItemUrls = new Set(subItem.links.map((link) => decodeRedirect(link.url)))
+        position.media = media.filter((item) => !!item.url && subItemUrls.has(item.url))
+        for (const item of position.media) assigned.add(item)
+        positions.push(position)
+      }
+
+      const firstPosition = positions[0]
+      if (!firstPosition) return null
+      firstPosition.media.push(...media.filter((item) => !assigned.has(item)))
 
       return {
         company,
-        companyUrl: input.links[0]?.url,
+        companyUrl,
         plainText: toPlainText(input.texts),
         positions,
       }
@@ -28,10 +50,11 @@ export class ExperienceParser implements Parser<Experience> {
 
     const parsed = parseSingleExperience(texts, input.links)
     if (!parsed) return null
+    parsed.position.media = media
 
     return {
       company: parsed.company,
-      companyUrl: input.links[0]?.url,
+      companyUrl,
       plainText: toPlainText(input.texts),
       positions: [parsed.position],
     }
@@ -74,11 +97,14 @@ function parseSingleExperience(
     duration: meta.duration,
     location: meta.location,
     description: meta.description,
+    skills: meta.skills,
+    hiddenSkillCount: meta.hiddenSkillCount,
+    media: [],
     plainText: toPlainText(texts),
   }
 
   return {
-    company: company || links[0]?.text || undefined,
+    company: company || links.find((link) => COMPANY_URL_PATTERN.test(link.url))?.text || undefined,
     position,
   }
 }
@@ -103,6 +129,9 @@ function parsePosition(texts: string[]): Position | null {
     duration: meta.duration,
     location: meta.location,
     description: meta.description,
+    skills: meta.skills,
+    hiddenSkillCount: meta.hiddenSkillCount,
+    media: [],
     plainText: toPlainText(lines),
   }
 }
@@ -113,28 +142,52 @@ function extractMeta(lines: string[]): {
   duration?: string
   location?: string
   description?: string
+  skills: string[]
+  hiddenSkillCount?: number
 } {
   let fromDate: string | undefined
   let toDate: string | undefined
   let duration: string | undefined
   let location: string | undefined
-  let description: string | undefined
+  let skills: string[] = []
+  let hiddenSkillCount: number | undefined
+  const descriptionLines: string[] = []
+
+  let previousWasDate = false
 
   for (const line of lines) {
+    if (SEE_MORE_PATTERN.test(line)) continue
+
+    if (SKILLS_PREFIX.test(line)) {
+      const parsed = parseSkillsLine(line)
+      skills = parsed.skills
+      hiddenSkillCount = parsed.hiddenSkillCount
+      continue
+    }
+
+    // Once the description has started, every following line belongs to it (multi-paragraph).
+    if (descriptionLines.length > 0) {
+      descriptionLines.push(line.replace(TRAILING_SEE_MORE, ''))
+      continue
+    }
+
     if (!fromDate && isDateLine(line)) {
       const parsed = parseDateRange(line, { includeDuration: true })
       fromDate = parsed.fromDate ?? undefined
       toDate = parsed.toDate ?? undefined
       duration = parsed.duration ?? undefined
+      previousWasDate = true
       continue
     }
 
-    if (!location && isLocationLike(line)) {
+    // The location sits right below the dates; a short sentence there is the description's opening line.
+    if (!location && (previousWasDate || !fromDate) && isLocationLike(line) && !/[.!?:]$/.test(line)) {
       location = line
+      previousWasDate = false
       continue
     }
 
-    if (!description && isDescriptionLike(line)) description = line
+    descriptionLines.push(line.replace(TRAILING_SEE_MORE, ''))
   }
 
   return {
@@ -142,6 +195,66 @@ function extractMeta(lines: string[]): {
     toDate,
     duration,
     location,
-    description,
+    description: descriptionLines.join('\n').trim() || undefined,
+    skills,
+    hiddenSkillCount,
+  }
+}
+
+/**
+ * Parses "Skills: React · TypeScript · +3 skills" into individual skill names.
+ * The "+3 skills" marker is returned as `hiddenSkillCount` so callers know the list is incomplete.
+ */
+function parseSkillsLine(line: string): { skills: string[]; hiddenSkillCount?: number } {
+  const skills: string[] = []
+  let hiddenSkillCount: number | undefined
+
+  for (const part of line.replace(SKILLS_PREFIX, '').split(/\s*[·•]\s*/)) {
+    const skill = part.trim()
+    const overflow = skill.match(/^\+(\d+)\s+skills?$/i)
+    if (overflow?.[1]) hiddenSkillCount = Number.parseInt(overflow[1], 10)
+    else if (skill) skills.push(skill)
+  }
+
+  return { skills, hiddenSkillCount }
+}
+
+/**
+ * Reads the media blocks collected by ExperiencePageExtractor and classifies them by URL and title.
+ */
+function parseMediaContext(raw: string | undefined): PositionMedia[] {
+  if (!raw) return []
+
+  try {
+    const blocks = JSON.parse(raw) as Array<{ url?: string; title?: string | null; thumbnailUrl?: string | null }>
+    return blocks.map((block) => ({
+      kind: classifyMedia(block.url ?? '', block.title ?? ''),
+      title: block.title || undefined,
+      url: block.url ? decodeRedirect(block.url) : undefined,
+      thumbnailUrl: block.thumbnailUrl || undefined,
+    }))
+  } catch {
+    return []
+  }
+}
+
+function classifyMedia(url: string, title: string): PositionMedia['kind'] {
+  const target = `${decodeRedirect(url)} ${title}`.toLowerCase()
+  if (/\.(?:pdf|pptx?|docx?|key)\b|slideshare|speakerdeck|docs\.google|\bslides?\b|\bdocument\b/.test(target)) {
+    return 'document'
+  }
+  if (/youtube\.com|youtu\.be|vimeo\.com|\.mp4\b|\bvideo\b/.test(target)) return 'video'
+  if (/\.(?:png|jpe?g|gif|webp)\b|\/overlay\/.*(?:image|media)|\bimage\b/.test(target)) return 'image'
+  return 'link'
+}
+
+function decodeRedirect(url: string): string {
+  const match = url.match(/linkedin\.com\/redir\/redirect\?url=([^&]+)/)
+  if (!match?.[1]) return url
+
+  try {
+    return decodeURIComponent(match[1])
+  } catch {
+    return url
   }
 }
@@ -0,0 +1,77 @@
+import type { FeaturedItem } from '../../models/person'
+import { normalizePlainTextLines, toPlainText } from '../../scrapers/person/utils'
+import type { ParseInput, Parser } from './types'
+
+const KIND_LABELS: Record<string, FeaturedItem['kind']> = {
+  post: 'post',
+  article: 'article',
+  newsletter: 'article',
+  link: 'link',
+  document: 'document',
+  pdf: 'document',
+  image: 'media',
+  video: 'media',
+  media: 'media',
+}
+
+const FEATURED_NOISE = /^(?:[\d,.]+[KM]?\s+(?:comments?|reposts?|reactions?)|[\d,.]+[KM]?|like|comment|repost|send)$/i
+
+export class FeaturedParser implements Parser<FeaturedItem> {
+  readonly sectionName = 'featured'
+
+  parse(input: ParseInput): FeaturedItem | null {
+    const lines = normalizePlainTextLines(input.texts).filter((line) => !FEATURED_NOISE.test(line))
+    if (lines.length === 0) return null
+    if (lines.length === 1 && lines[0] === 'Featured') return null
+
+    let kind: FeaturedItem['kind'] | undefined
+    const content: string[] = []
+
+    for (const line of lines) {
+      const labelKind = KIND_LABELS[line.toLowerCase()]
+      if (!kind && labelKind) {
+        kind = labelKind
+        continue
+      }
+      content.push(line)
+    }
+
+    const url = resolveUrl(input)
+    kind ??= inferKind(url)
+
+    return {
+      kind,
+      title: content[0],
+      subtitle: content[1],
+      url,
+      thumbnailUrl: input.context.thumbnailUrl,
+      plainText: toPlainText(lines),
+    }
+  }
+
+  validate(item: FeaturedItem): boolean {
+    return !!item.title || !!item.url
+  }
+}
+
+function resolveUrl(input: ParseInput): string | undefined {
+  const url = input.context.href ?? input.links[0]?.url
+  if (!url) return undefined
+
+  const redirect = url.match(/linkedin\.com\/redir\/redirect\?url=([^&]+)/)
+  if (!redirect?.[1]) return url
+
+  try {
+    return decodeURIComponent(redirect[1])
+  } catch {
+    return url
+  }
+}
+
+function inferKind(url: string | undefined): FeaturedItem['kind'] {
+  if (!url) return 'media'
+  if (/linkedin\.com\/(?:feed\/update|posts)\//.test(url)) return 'post'
+  if (/linkedin\.com\/pulse\//.test(url)) return 'article'
+  if (/\.pdf(?:$|\?)/i.test(url)) return 'document'
+  return 'link'
+}
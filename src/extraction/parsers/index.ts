@@ -1,9 +1,26 @@
 export * from './about-parser'
+export * from './accomplishment-category-parsers'
 export * from './accomplishment-parser'
+export * from './community-parser'
+export * from './company-parser'
+export * from './connection-parser'
 export * from './contact-parser'
 export * from './education-parser'
 export * from './experience-parser'
+export * from './featured-parser'
 export * from './interest-parser'
+export * from './job-posting-parser'
+export * from './job-search-parser'
+export * from './messaging-parser'
+export * from './open-to-work-parser'
 export * from './patent-parser'
+export * from './person-stub-parser'
+export * from './post-engagement-parser'
+export * from './post-parser'
+export * from './recommendation-parser'
+export * from './related-profile-parser'
+export * from './school-parser'
+export * from './skill-parser'
 export * from './top-card-parser'
 export * from './types'
+export * from './volunteering-parser'
@@ -0,0 +1,133 @@
+import type { JobPosting } from '../../models'
+import { isSalaryLike, mapEmploymentType, mapWorkplaceType } from '../../scrapers/job/utils'
+import { parseCount } from '../../scrapers/utils'
+import type { ParseInput, Parser } from './types'
+
+/** Top card fields of a job posting; the scraper supplies URL, ID and description */
+export type JobTopCardResult = Omit<JobPosting, 'linkedinUrl' | 'jobId' | 'description'>
+
+const TOP_CARD_NOISE = new Set([
+  'save',
+  'apply',
+  'easy apply',
+  'share',
+  'show more options',
+  'promoted',
+  'actively recruiting',
+])
+const DESCRIPTION_NOISE = new Set(['about the job', 'see more', 'show more', 'show less', '… more', '...more'])
+
+export class JobPostingParser implements Parser<JobTopCardResult> {
+  readonly sectionName = 'job-posting'
+
+  parse(input: ParseInput): JobTopCardResult | null {
+    const texts = input.texts.map((text) => text.replace(/\s+/g, ' ').trim()).filter(Boolean)
+    if (texts.length === 0) return null
+
+    const companyLink = input.links.find((link) => link.url.includes('/company/') && link.text.trim())
+    const result: JobTopCardResult = {
+      company: companyLink?.text.trim(),
+      companyUrl: companyLink?.url,
+      skills: [],
+    }
+
+    for (const text of texts) {
+      if (text === result.company || TOP_CARD_NOISE.has(text.toLowerCase())) continue
+
+      if (/^skills:/i.test(text)) {
+        result.skills = parseSkillsLine(text)
+        continue
+      }
+
+      const parts = text.split(/\s+·\s+/).map((part) => part.trim())
+      if (!result.title && parts.length === 1 && !isActivityPart(text)) {
+        result.title = text
+        continue
+      }
+
+      const unclassified = parts.filter((part) => part !== result.company && !classifyPart(part, result))
+      if (!result.location && parts.length > 1 && unclassified[0])
+        result.location = extractLocation(unclassified[0], result)
+    }
+
+    return result
+  }
+
+  validate(item: JobTopCardResult): boolean {
+    return !!item.title
+  }
+}
+
+export class JobDescriptionParser implements Parser<string> {
+  readonly sectionName = 'job-description'
+
+  parse(input: ParseInput): string | null {
+    const texts = input.texts
+      .map((text) => text.trim())
+      .filter(Boolean)
+      .filter((text) => !DESCRIPTION_NOISE.has(text.toLowerCase()))
+
+    if (texts.length === 0) return null
+
+    return texts.join('\n').trim() || null
+  }
+
+  validate(item: string): boolean {
+    return item.length > 0
+  }
+}
+
+function isActivityPart(part: string): boolean {
+  return /\bapplicants?\b/i.test(part) || /\bago\b/i.test(part) || /^(?:re)?posted\b/i.test(part) || isSalaryLike(part)
+}
+
+/**
+ * Assigns a metadata fragment to the matching top card field.
+ * Returns false when the fragment is not a recognized metadata value.
+ */
+function classifyPart(part: string, result: JobTopCardResult): boolean {
+  if (/\bapplicants?\b/i.test(part)) {
+    result.applicantCount ??= parseCount(part)
+    return true
+  }
+
+  if (/\bago\b/i.test(part) || /^(?:re)?posted\b/i.test(part)) {
+    result.postedDate ??= part.replace(/^(?:re)?posted\s+/i, '').trim()
+    return true
+  }
+
+  if (isSalaryLike(part)) {
+    result.salaryRange ??= part
+    return true
+  }
+
+  if (part.length <= 20) {
+    const workplaceType = mapWorkplaceType(part)
+    const employmentType = mapEmploymentType(part)
+
+    if (workplaceType) result.workplaceType ??= workplaceType
+    if (employmentType) result.employmentType ??= employmentType
+    if (workplaceType || employmentType) return true
+  }
+
+  return false
+}
+
+function extractLocation(part: string, result: JobTopCardResult): string {
+  const match = part.match(/^(.*?)\s*\(([^)]+)\)$/)
+  if (!match?.[1] || !match[2]) return part
+
+  const workplaceType = mapWorkplaceType(match[2])
+  if (!workplaceType) return part
+
+  result.workplaceType ??= workplaceType
+  return match[1].trim()
+}
+
+function parseSkillsLine(text: string): string[] {
+  return text
+    .replace(/^skills:\s*/i, '')
+    .split(/,|·/)
+    .map((skill) => skill.replace(/^and\s+/i, '').trim())
+    .filter((skill) => skill && !/^\+\d+ more$/i.test(skill))
+}
@@ -0,0 +1,63 @@
+import type { JobStub } from '../../models'
+import { buildJobUrl, parseJobId } from '../../scrapers/job/utils'
+import { toPlainText } from '../../scrapers/person/utils'
+import type { ParseInput, Parser } from './types'
+
+const CARD_NOISE_PATTERNS = [
+  /^promoted$/i,
+  /^easy apply$/i,
+  /^viewed$/i,
+  /^applied$/i,
+  /^saved$/i,
+  /^actively recruiting$/i,
+  /^be an early applicant$/i,
+  /\bbenefits?$/i,
+  /\balumni\b/i,
+  /\bconnections? work here\b/i,
+  /^your profile matches/i,
+  /^dismiss\b/i,
+]
+
+export class JobStubParser implements Parser<JobStub> {
+  readonly sectionName = 'job-search'
+
+  parse(input: ParseInput): JobStub | null {
+    const jobLink = input.links.find((link) => parseJobId(link.url))
+    const jobId = input.context.jobId ?? (jobLink ? parseJobId(jobLink.url) : null)
+    if (!jobId) return null
+
+    const texts = input.texts.map((text) => text.replace(/\s+/g, ' ').trim()).filter(Boolean)
+    let postedDate: string | undefined
+    const content: string[] = []
+
+    for (const text of texts) {
+      if (CARD_NOISE_PATTERNS.some((pattern) => pattern.test(text))) continue
+
+      if (/\bago\b/i.test(text) || /^(?:re)?posted\b/i.test(text)) {
+        postedDate ??= text.replace(/^(?:re)?posted\s+/i, '').trim()
+        continue
+      }
+
+      content.push(text)
+    }
+
+    const title = (content[0] ?? jobLink?.text.trim())?.replace(/\s+with verification$/i, '')
+    if (!title) return null
+
+    const details = content.filter((text) => !text.startsWith(title))
+
+    return {
+      jobId,
+      linkedinUrl: buildJobUrl(jobId),
+      title,
+      company: details[0],
+      location: details[1],
+      postedDate,
+      plainText: toPlainText(texts),
+    }
+  }
+
+  validate(item: JobStub): boolean {
+    return !!item.jobId && !!item.title
+  }
+}
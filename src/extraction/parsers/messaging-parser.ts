@@ -0,0 +1,91 @@
+import type { Conversation, Message, MessageAttachment } from '../../models'
+import { normalizeProfileUrl, toPlainText } from '../../scrapers/person/utils'
+import type { ParseInput, Parser } from './types'
+
+const CONVERSATION_NOISE =
+  /^(?:active now|sponsored|inmail|\d+ new messages?|unread|.*\bstatus is (?:online|offline|reachable)|open the options list.*)$/i
+const OTHERS_PATTERN = /^(?:and )?\d+ others?$/i
+const MESSAGE_NOISE =
+  /^(?:view .+['’]s? profile|.+ sent the following messages? at .+|.+ sent an? (?:attachment|image|video))$/i
+
+/**
+ * Parses an inbox card: participant names, last message snippet, timestamp and unread flag.
+ * Timestamp, thread URL and unread state come from the card's context.
+ */
+export class ConversationParser implements Parser<Conversation> {
+  readonly sectionName = 'conversation'
+
+  parse(input: ParseInput): Conversation | null {
+    const texts = input.texts.map((text) => text.replace(/\s+/g, ' ').trim()).filter(Boolean)
+    const timestamp = input.context.timestamp
+    const content = texts.filter((text) => text !== timestamp && !CONVERSATION_NOISE.test(text))
+
+    const participantsLine = content[0]
+    if (!participantsLine) return null
+
+    const participants = participantsLine
+      .split(/,\s*|\s+and\s+/)
+      .map((name) => name.trim())
+      .filter((name) => name && !OTHERS_PATTERN.test(name))
+
+    return {
+      threadUrl: input.context.threadUrl,
+      participants,
+      snippet: content.length > 1 ? content[content.length - 1] : undefined,
+      timestamp,
+      unread: input.context.unread === 'true',
+      plainText: toPlainText(texts),
+    }
+  }
+
+  validate(item: Conversation): boolean {
+    return item.participants.length > 0
+  }
+}
+
+/**
+ * Parses a single message of a thread. Sender, time and attachments come from context
+ * (carried forward across a message group); the remaining lines form the message text.
+ */
+export class MessageParser implements Parser<Message> {
+  readonly sectionName = 'message'
+
+  parse(input: ParseInput): Message | null {
+    const texts = input.texts.map((text) => text.trim()).filter(Boolean)
+    const attachments = parseAttachments(input.context.attachments)
+    const { sender, time, heading } = input.context
+
+    const skip = new Set([sender, time, heading, ...attachments.map((attachment) => attachment.name)])
+    const body = texts.filter((text) => !skip.has(text) && !MESSAGE_NOISE.test(text))
+    const text = body.join('\n').trim() || undefined
+
+    if (!text && attachments.length === 0) return null
+
+    const senderUrl = input.context.senderUrl ? (normalizeProfileUrl(input.context.senderUrl) ?? undefined) : undefined
+
+    return {
+      urn: input.context.urn,
+      sender,
+      senderUrl,
+      text,
+      timestamp: [heading, time].filter(Boolean).join(' ') || undefined,
+      attachments,
+      plainText: toPlainText(texts),
+    }
+  }
+
+  validate(item: Message): boolean {
+    return !!item.text || item.attachments.length > 0
+  }
+}
+
+function parseAttachments(raw: string | undefined): MessageAttachment[] {
+  if (!raw) return []
+
+  try {
+    const parsed = JSON.parse(raw) as MessageAttachment[]
+    return Array.isArray(parsed) ? parsed.filter((attachment) => !!attachment.url || !!attachment.name) : []
+  } catch {
+    return []
+  }
+}
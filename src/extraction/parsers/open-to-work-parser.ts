@@ -0,0 +1,98 @@
+import type { OpenToWork } from '../../models/person'
+import { toPlainText } from '../../scrapers/person/utils'
+import type { RawSection } from '../page-extractors'
+import type { ParseInput, RawParser } from './types'
+
+type ListField = 'jobTitles' | 'services' | 'locations' | 'workplaceTypes' | 'employmentTypes'
+type PreferenceField = ListField | 'startDate'
+
+const FIELD_HEADINGS: Array<[RegExp, PreferenceField]> = [
+  [/^job titles?$/i, 'jobTitles'],
+  [/^services?(?: provided)?$/i, 'services'],
+  [/^(?:workplaces?|workplace types?|location types?)$/i, 'workplaceTypes'],
+  [/^locations?(?: \((?:on-site|remote)\))?$/i, 'locations'],
+  [/^start date$/i, 'startDate'],
+  [/^(?:employment|job) types?$/i, 'employmentTypes'],
+]
+
+const MODAL_NOISE =
+  /^(?:open to work|providing services|dismiss|close|edit|share profile|show details|see all details|message|request services|view services page)$/i
+
+/**
+ * Parses the open-to-work / providing-services preferences. Sections either hold the
+ * details modal (heading lines followed by values) or only the card summary.
+ */
+export class OpenToWorkParser implements RawParser<OpenToWork> {
+  readonly sectionName = 'open-to-work'
+
+  parse(_input: ParseInput): OpenToWork | null {
+    return null
+  }
+
+  parseRaw(sections: RawSection[]): OpenToWork[] {
+    return sections.map((section) => parsePreferences(section)).filter((item): item is OpenToWork => item !== null)
+  }
+
+  validate(item: OpenToWork): boolean {
+    return !!item.plainText
+  }
+}
+
+function parsePreferences(section: RawSection): OpenToWork | null {
+  if (section.heading !== 'jobs' && section.heading !== 'services') return null
+
+  const preferences: OpenToWork = {
+    kind: section.heading,
+    jobTitles: [],
+    services: [],
+    locations: [],
+    workplaceTypes: [],
+    employmentTypes: [],
+    plainText: toPlainText(section.labels),
+  }
+
+  const lines = section.labels.filter((line) => !MODAL_NOISE.test(line))
+  let current: PreferenceField | null = null
+  const summary: string[] = []
+
+  for (const line of lines) {
+    const field = FIELD_HEADINGS.find(([pattern]) => pattern.test(line))?.[1]
+    if (field) {
+      current = field
+      continue
+    }
+
+    if (!current) {
+      summary.push(line)
+      continue
+    }
+
+    if (current === 'startDate') preferences.startDate ??= line
+    else preferences[current].push(...splitValues(line))
+  }
+
+  const summaryField: ListField = section.heading === 'jobs' ? 'jobTitles' : 'services'
+  if (preferences[summaryField].length === 0 && summary[0]) {
+    preferences[summaryField] = splitSummary(summary[0])
+  }
+
+  return preferences
+}
+
+function splitValues(line: string): string[] {
+  return line
+    .split(/\s*[·•]\s*/)
+    .map((value) => value.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Splits a card summary such as "Software Engineer, Staff Engineer and Principal Engineer roles".
+ */
+function splitSummary(line: string): string[] {
+  return line
+    .replace(/\s+roles?$/i, '')
+    .split(/\s*,\s*|\s+and\s+/)
+    .map((value) => value.trim())
+    .filter(Boolean)
+}
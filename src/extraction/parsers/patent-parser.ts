@@ -1,12 +1,16 @@
-import type { Patent } from '../../models/person'
-import { normalizePlainTextLines, toPlainText } from '../../scrapers/person/utils'
+import type { Patent, PatentInventor } from '../../models/person'
+import { normalizePlainTextLines, normalizeProfileUrl, toPlainText } from '../../scrapers/person/utils'
+import type { ExtractedLink } from '../text-extractors'
 import type { ParseInput, Parser } from './types'
 
+const INVENTORS_HEADING = /^(?:other )?inventors$/i
+
 export class PatentParser implements Parser<Patent> {
   readonly sectionName = 'patent'
 
   parse(input: ParseInput): Patent | null {
-    const lines = normalizePlainTextLines(input.texts)
+    const { texts, inventorNames } = splitInventorBlock(input.texts)
+    const lines = normalizePlainTextLines(texts)
 
     if (lines.length === 1 && lines[0] === 'Patents') return null
     if (lines.some((line) => line.includes('adds will appear here'))) return null
@@ -15,23 +19,14 @@ export class PatentParser implements Parser<Patent> {
     const title = lines[0]
     if (!title) return null
 
-    let issuer: string | undefined
-    let number: string | undefined
-    let issuedDate: string | undefined
-    let description: string | undefined
-
     const metadataLine = lines.slice(1).find(looksLikePatentMetadataLine)
-    if (metadataLine) {
-      const parsed = parsePatentSubtitle(metadataLine)
-      issuer = parsed.issuer
-      number = parsed.number
-      issuedDate = parsed.issuedDate
-    }
+    const metadata = metadataLine ? parsePatentSubtitle(metadataLine) : {}
+    if (!metadata.status && lines.some((line) => /^patent pending$/i.test(line))) metadata.status = 'pending'
 
     const descriptionLines = lines
       .slice(1)
-      .filter((line) => line !== metadataLine && !looksLikePatentMetadataLine(line))
-    if (descriptionLines.length > 0) description = descriptionLines.join('\n')
+      .filter((line) => line !== metadataLine && !looksLikePatentMetadataLine(line) && !/^patent pending$/i.test(line))
+    const description = descriptionLines.length > 0 ? descriptionLines.join('\n') : undefined
 
     const url = input.links
       .filter((link) => {
@@ -43,9 +38,9 @@ export class PatentParser implements Parser<Patent> {
 
     return {
       title,
-      issuer,
-      number,
-      issuedDate,
+      ...metadata,
+      issuer: metadata.office,
+      inventors: collectInventors(input.links, inventorNames, input.context.inventors),
       url,
       description,
       plainText: toPlainText(lines),
@@ -61,50 +56,98 @@ function looksLikePatentMetadataLine(line: string): boolean {
   const normalized = line.trim()
   if (!normalized) return false
 
-  if (/\bissued\b/i.test(normalized)) return true
+  if (/\b(?:issued|filed)\b/i.test(normalized)) return true
 
-  const idLike = /^[A-Z]{2}\s+[A-Z0-9,-]+(?:\s+[A-Z0-9,-]+)*$/.test(normalized)
+  const idLike = /^[A-Z]{2}\s+[A-Z0-9,/-]+(?:\s+[A-Z0-9,/-]+)*$/.test(normalized)
   return idLike && /\d/.test(normalized)
 }
 
-function parsePatentSubtitle(subtitle: string): {
-  issuer?: string
+interface PatentMetadata {
+  office?: string
   number?: string
+  applicationNumber?: string
+  status?: 'issued' | 'pending'
   issuedDate?: string
-} {
-  let issuer: string | undefined
-  let number: string | undefined
-  let issuedDate: string | undefined
+  filingDate?: string
+}
+
+/**
+ * Parses subtitles such as "US 11,123,456 B2 · Issued Sep 24, 2019" or
+ * "US 17/123,456 · Filed Jan 3, 2021". Filed-only entries are pending applications.
+ */
+function parsePatentSubtitle(subtitle: string): PatentMetadata {
+  const metadata: PatentMetadata = {}
+  let id: string | undefined
 
   try {
-    const parts = subtitle.split('·').map((s) => s.trim())
-    const idPart = parts[0]
-
-    if (idPart) {
-      if (idPart.toLowerCase().startsWith('issued')) issuedDate = idPart.replace(/issued/i, '').trim() || issuedDate
-      else {
-        const match = idPart.match(/^([A-Z]{2})\s+(.+)$/)
-        if (match) {
-          issuer = match[1]
-          number = match[2]
-        } else {
-          number = idPart
-        }
+    for (const part of subtitle.split('·').map((s) => s.trim())) {
+      if (/^issued\b/i.test(part)) {
+        metadata.issuedDate = part.replace(/^issued/i, '').trim() || metadata.issuedDate
+        metadata.status = 'issued'
+      } else if (/^filed\b/i.test(part)) {
+        metadata.filingDate = part.replace(/^filed/i, '').trim() || metadata.filingDate
+        metadata.status ??= 'pending'
+      } else if (!id) {
+        id = part
+      } else if (!metadata.issuedDate) {
+        metadata.issuedDate = part
       }
     }
 
-    const datePart = parts[1]
-    if (datePart) {
-      if (datePart.toLowerCase().startsWith('issued')) issuedDate = datePart.replace(/issued/i, '').trim() || issuedDate
-      else {
-        issuedDate = datePart
-      }
+    if (id) {
+      const match = id.match(/^([A-Z]{2})\s+(.+)$/)
+      if (match) metadata.office = match[1]
+      const number = match?.[2] ?? id
+
+      if (metadata.status === 'pending' || /^\d{2}\/\d/.test(number)) metadata.applicationNumber = number
+      else metadata.number = number
     }
   } catch {
     // Ignore malformed subtitles.
   }
 
-  return { issuer, number, issuedDate }
+  return metadata
+}
+
+/**
+ * Separates the "Other inventors" block (a heading followed by names) from the rest of the item.
+ */
+function splitInventorBlock(texts: string[]): { texts: string[]; inventorNames: string[] } {
+  const index = texts.findIndex((text) => INVENTORS_HEADING.test(text.trim()))
+  if (index === -1) return { texts, inventorNames: [] }
+
+  const inventorNames = texts
+    .slice(index + 1)
+    .map((text) => text.replace(/\s+/g, ' ').trim())
+    .filter((text) => text && !/^\+\s?\d+$/.test(text) && !/^(?:see|show) patent$/i.test(text))
+
+  return { texts: texts.slice(0, index), inventorNames }
+}
+
+function collectInventors(links: ExtractedLink[], names: string[], contextInventors?: string): PatentInventor[] {
+  const inventors: PatentInventor[] = []
+
+  const add = (name: string, linkedinUrl?: string) => {
+    const existing = inventors.find((inventor) => inventor.name === name)
+    if (existing) existing.linkedinUrl ??= linkedinUrl
+    else inventors.push(linkedinUrl ? { name, linkedinUrl } : { name })
+  }
+
+  if (contextInventors) {
+    try {
+      for (const inventor of JSON.parse(contextInventors) as PatentInventor[]) add(inventor.name, inventor.linkedinUrl)
+    } catch {}
+  }
+
+  for (const link of links) {
+    const linkedinUrl = normalizeProfileUrl(link.url)
+    const name = link.text.replace(/\s+/g, ' ').trim()
+    if (linkedinUrl && name) add(name, linkedinUrl)
+  }
+
+  for (const name of names) add(name)
+
+  return inventors
 }
 
 function decodeLinkedInRedirect(url: string): string {
@@ -0,0 +1,71 @@
+import type { PersonStub } from '../../models'
+import { isLocationLike, normalizeProfileUrl, parseConnectionDegree, toPlainText } from '../../scrapers/person/utils'
+import type { ParseInput, Parser } from './types'
+
+const ACTION_LABELS = new Set(['connect', 'follow', 'message', 'pending', 'following', 'view profile'])
+const SUMMARY_PREFIX = /^(?:current|past|summary|skills):\s/i
+
+/**
+ * Parses list cards that reference a member (people tabs, search results, sidebars)
+ * into lightweight stubs that can be passed to `scrapePerson`.
+ */
+export class PersonStubParser implements Parser<PersonStub> {
+  readonly sectionName = 'person-stub'
+
+  parse(input: ParseInput): PersonStub | null {
+    const linkedinUrl = input.links.map((link) => normalizeProfileUrl(link.url)).find((url) => !!url)
+    if (!linkedinUrl) return null
+
+    const texts = input.texts.map((text) => text.trim()).filter(Boolean)
+    let connectionDegree: string | undefined
+    let mutualConnections: string | undefined
+    const content: string[] = []
+
+    for (const text of texts) {
+      if (isDegreeLabel(text)) {
+        connectionDegree ??= parseConnectionDegree(text) ?? undefined
+        continue
+      }
+
+      if (/\bmutual connections?\b/i.test(text)) {
+        mutualConnections ??= text
+        continue
+      }
+
+      if (isActionLabel(text) || SUMMARY_PREFIX.test(text)) continue
+      content.push(text)
+    }
+
+    const rawName = content[0]
+    if (!rawName) return null
+
+    const nameMatch = rawName.match(/^(.*?)\s*[·•]\s*(1st|2nd|3rd\+?)$/)
+    const name = nameMatch?.[1]?.trim() || rawName
+    if (nameMatch?.[2]) connectionDegree ??= nameMatch[2]
+
+    const location = content[2] && isLocationLike(content[2]) ? content[2] : undefined
+
+    return {
+      name,
+      headline: content[1],
+      location,
+      linkedinUrl,
+      connectionDegree,
+      mutualConnections,
+      plainText: toPlainText(texts),
+    }
+  }
+
+  validate(item: PersonStub): boolean {
+    return !!item.name && item.name !== 'LinkedIn Member' && !!item.linkedinUrl
+  }
+}
+
+function isDegreeLabel(text: string): boolean {
+  return /^(?:[·•]\s*)?(?:1st|2nd|3rd\+?)(?:\s+degree connection)?$/i.test(text)
+}
+
+function isActionLabel(text: string): boolean {
+  const lower = text.toLowerCase()
+  return ACTION_LABELS.has(lower) || /^view .+['’]s? profile$/i.test(text)
+}
@@ -0,0 +1,100 @@
+import type { PostComment, PostReactor } from '../../models'
+import { normalizeProfileUrl, toPlainText } from '../../scrapers/person/utils'
+import { isRelativeTimestamp, parseCount, relativeTimeToDate } from '../../scrapers/utils'
+import { PersonStubParser } from './person-stub-parser'
+import type { ParseInput, Parser } from './types'
+
+const COMMENT_NOISE = new Set([
+  'like',
+  'reply',
+  'author',
+  'edited',
+  '…more',
+  '… more',
+  '...more',
+  'see more',
+  'see less',
+])
+
+/**
+ * Parses rows of a post's reactions modal. Rows look like person cards, so the
+ * heavy lifting is delegated to PersonStubParser; the reaction type comes from the icon.
+ */
+export class ReactorParser implements Parser<PostReactor> {
+  readonly sectionName = 'post-reactions'
+
+  private readonly stubParser = new PersonStubParser()
+
+  parse(input: ParseInput): PostReactor | null {
+    const stub = this.stubParser.parse(input)
+    if (!stub) return null
+
+    return {
+      name: stub.name,
+      headline: stub.headline,
+      linkedinUrl: stub.linkedinUrl,
+      connectionDegree: stub.connectionDegree,
+      reactionType: input.context.reactionType,
+      plainText: stub.plainText,
+    }
+  }
+
+  validate(item: PostReactor): boolean {
+    return !!item.name && item.name !== 'LinkedIn Member'
+  }
+}
+
+/**
+ * Parses a single top-level comment: author header, relative timestamp, body and like count.
+ */
+export class CommentParser implements Parser<PostComment> {
+  readonly sectionName = 'post-comments'
+
+  parse(input: ParseInput): PostComment | null {
+    const texts = input.texts.map((text) => text.replace(/\s+/g, ' ').trim()).filter(Boolean)
+    if (texts.length === 0) return null
+
+    const comment: Partial<PostComment> = { reactionCount: 0, plainText: toPlainText(texts) }
+    const header: string[] = []
+    const body: string[] = []
+    let sawTimestamp = false
+
+    for (const text of texts) {
+      const lower = text.toLowerCase()
+      if (COMMENT_NOISE.has(lower) || /^\d+\s+repl(?:y|ies)$/i.test(text)) continue
+      if (/^[·•]?\s*(?:1st|2nd|3rd\+?)(?:\s+degree connection)?$/i.test(text)) continue
+
+      if (!sawTimestamp && isRelativeTimestamp(text)) {
+        comment.postedAgo = text.split(/[·•]/)[0]?.trim()
+        comment.postedDate = relativeTimeToDate(text)
+        sawTimestamp = true
+        continue
+      }
+
+      if (sawTimestamp && /^[\d,.]+[KM]?(?:\s+(?:reactions?|likes?))?$/i.test(text)) {
+        comment.reactionCount = parseCount(text) ?? 0
+        continue
+      }
+
+      if (sawTimestamp) body.push(text)
+      else header.push(text)
+    }
+
+    const authorName = header[0]?.replace(/\s*[·•]\s*(?:1st|2nd|3rd\+?)$/, '')
+    if (!authorName) return null
+
+    const authorLink = input.links.map((link) => normalizeProfileUrl(link.url)).find((url) => !!url)
+
+    return {
+      ...comment,
+      authorName,
+      authorHeadline: header[1],
+      authorUrl: authorLink ?? undefined,
+      text: body.join('\n') || undefined,
+    } as PostComment
+  }
+
+  validate(item: PostComment): boolean {
+    return !!item.authorName && !!item.text
+  }
+}
@@ -0,0 +1,128 @@
+import type { Post } from '../../models'
+import { normalizeProfileUrl, toPlainText } from '../../scrapers/person/utils'
+import { isRelativeTimestamp, parseCount, relativeTimeToDate } from '../../scrapers/utils'
+import type { ParseInput, Parser } from './types'
+
+const POST_NOISE = new Set([
+  'like',
+  'comment',
+  'repost',
+  'send',
+  'follow',
+  'promoted',
+  'edited',
+  '…more',
+  '… more',
+  '...more',
+  'see more',
+  'see less',
+  'reactions',
+  'visible to anyone on or off linkedin',
+])
+
+const POST_MEDIA_TYPES = ['none', 'image', 'video', 'document', 'article', 'poll'] as const
+
+export class PostParser implements Parser<Post> {
+  readonly sectionName = 'post'
+
+  parse(input: ParseInput): Post | null {
+    const texts = input.texts.map((text) => text.replace(/\s+/g, ' ').trim()).filter(Boolean)
+    if (texts.length === 0) return null
+
+    const urn = input.context.urn
+    const socialReactionCount = input.context.reactionCount ? parseCount(input.context.reactionCount) : undefined
+    const post: Post = {
+      urn,
+      url: urn ? `https://www.linkedin.com/feed/update/${urn}/` : undefined,
+      reactionCount: socialReactionCount ?? 0,
+      commentCount: 0,
+      repostCount: 0,
+      mediaType: toMediaType(input.context.mediaType),
+      plainText: toPlainText(texts),
+    }
+
+    let isReshare = false
+    let sawTimestamp = false
+    const header: string[] = []
+    const body: string[] = []
+
+    for (const text of texts) {
+      const lower = text.toLowerCase()
+      if (POST_NOISE.has(lower) || /^[·•]\s*(?:1st|2nd|3rd\+?)$/.test(text)) continue
+
+      if (/\breposted this$/i.test(text)) {
+        isReshare = true
+        continue
+      }
+
+      if (!sawTimestamp && isRelativeTimestamp(text)) {
+        post.postedAgo = text.split(/[·•]/)[0]?.trim()
+        post.postedDate = relativeTimeToDate(text)
+        sawTimestamp = true
+        continue
+      }
+
+      if (applyEngagementCount(text, post, socialReactionCount)) continue
+
+      if (sawTimestamp) body.push(text)
+      else header.push(text)
+    }
+
+    if (!sawTimestamp) body.push(...header.splice(2))
+    post.text = body.join('\n') || undefined
+
+    const author = header[0]
+    if (isReshare && author) {
+      const authorLink = input.links.find((link) => link.text.includes(author) && normalizeProfileUrl(link.url))
+      post.resharedFrom = {
+        name: author,
+        linkedinUrl: authorLink ? (normalizeProfileUrl(authorLink.url) ?? undefined) : undefined,
+      }
+    }
+
+    return post
+  }
+
+  validate(item: Post): boolean {
+    return !!item.text || !!item.urn
+  }
+}
+
+/**
+ * Applies reaction/comment/repost counters to the post.
+ * A bare number only counts as reactions when it repeats the count read from
+ * the social-counts bar, so years and figures in the post body stay text.
+ * Returns true when the line was an engagement counter.
+ */
+function applyEngagementCount(text: string, post: Post, socialReactionCount: number | undefined): boolean {
+  if (/^[\d,.]+[KM]?\s+comments?$/i.test(text)) {
+    post.commentCount = parseCount(text) ?? 0
+    return true
+  }
+
+  if (/^[\d,.]+[KM]?\s+reposts?$/i.test(text)) {
+    post.repostCount = parseCount(text) ?? 0
+    return true
+  }
+
+  if (/^[\d,.]+[KM]?\s+reactions?$/i.test(text)) {
+    post.reactionCount ||= parseCount(text) ?? 0
+    return true
+  }
+
+  if (socialReactionCount !== undefined && /^[\d,.]+[KM]?$/i.test(text) && parseCount(text) === socialReactionCount) {
+    return true
+  }
+
+  const othersMatch = text.match(/\band ([\d,.]+[KM]?) others?$/i)
+  if (othersMatch?.[1]) {
+    post.reactionCount ||= (parseCount(othersMatch[1]) ?? 0) + 1
+    return true
+  }
+
+  return false
+}
+
+function toMediaType(value: string | undefined): Post['mediaType'] {
+  return POST_MEDIA_TYPES.find((mediaType) => mediaType === value) ?? 'none'
+}
@@ -0,0 +1,64 @@
+import type { Recommendation } from '../../models/person'
+import { normalizePlainTextLines, normalizeProfileUrl, toPlainText } from '../../scrapers/person/utils'
+import type { RawSection } from '../page-extractors'
+import type { ParseInput, RawParser } from './types'
+
+const RECOMMENDATION_NOISE = new Set(['…see more', '… see more', 'see more', 'see less', '…more', 'message'])
+const DEGREE_LINE = /^[·•]?\s*(?:1st|2nd|3rd\+?)(?:\s+degree connection)?$/i
+const DATE_RELATIONSHIP_LINE = /^([A-Z][a-z]+ \d{1,2}, \d{4}),\s*(.+)$/
+
+export class RecommendationParser implements RawParser<Recommendation> {
+  readonly sectionName = 'recommendation'
+
+  parse(input: ParseInput): Recommendation | null {
+    const lines = normalizePlainTextLines(input.texts).filter(
+      (line) => !RECOMMENDATION_NOISE.has(line.toLowerCase()) && !DEGREE_LINE.test(line),
+    )
+    if (lines.length === 0) return null
+    if (lines.some((line) => /^(?:nothing to see for now|you haven['’]t)/i.test(line))) return null
+
+    const authorName = lines[0]?.replace(/\s*[·•]\s*(?:1st|2nd|3rd\+?)$/, '')
+    if (!authorName) return null
+
+    const metaIndex = lines.findIndex((line) => DATE_RELATIONSHIP_LINE.test(line))
+    const header = metaIndex === -1 ? lines.slice(0, 2) : lines.slice(0, metaIndex)
+    const body = metaIndex === -1 ? lines.slice(2) : lines.slice(metaIndex + 1)
+    const metaMatch = metaIndex === -1 ? null : lines[metaIndex]?.match(DATE_RELATIONSHIP_LINE)
+
+    const authorUrl = input.links.map((link) => normalizeProfileUrl(link.url)).find((url) => !!url)
+
+    return {
+      type: input.context.type === 'given' ? 'given' : 'received',
+      authorName,
+      authorUrl: authorUrl ?? undefined,
+      authorHeadline: header[1],
+      date: metaMatch?.[1],
+      relationship: metaMatch?.[2],
+      text: body.join('\n') || undefined,
+      plainText: toPlainText(lines),
+    }
+  }
+
+  /** Parses cards read per tab; each section's heading is the recommendation type */
+  parseRaw(sections: RawSection[]): Recommendation[] {
+    const recommendations: Recommendation[] = []
+
+    for (const section of sections) {
+      const parsed = this.parse({
+        texts: section.text.split('\n'),
+        links: section.anchors
+          .filter((anchor) => !!anchor.href)
+          .map((anchor) => ({ url: anchor.href ?? '', text: anchor.text ?? '', isExternal: false })),
+        context: { type: section.heading },
+      })
+
+      if (parsed && this.validate(parsed)) recommendations.push(parsed)
+    }
+
+    return recommendations
+  }
+
+  validate(item: Recommendation): boolean {
+    return !!item.authorName && !!item.text
+  }
+}
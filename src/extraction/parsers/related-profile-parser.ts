@@ -0,0 +1,25 @@
+import type { RelatedProfile } from '../../models'
+import { PersonStubParser } from './person-stub-parser'
+import type { ParseInput, Parser } from './types'
+
+/**
+ * Parses sidebar cards ("People also viewed", "People you may know"). Cards share the
+ * person-card layout, so PersonStubParser does the work; the sidebar comes from context.
+ */
+export class RelatedProfileParser implements Parser<RelatedProfile> {
+  readonly sectionName = 'related-profile'
+
+  private readonly stubParser = new PersonStubParser()
+
+  parse(input: ParseInput): RelatedProfile | null {
+    const stub = this.stubParser.parse(input)
+    if (!stub) return null
+
+    const source = input.context.source === 'people-you-may-know' ? 'people-you-may-know' : 'people-also-viewed'
+    return { ...stub, source }
+  }
+
+  validate(item: RelatedProfile): boolean {
+    return this.stubParser.validate(item)
+  }
+}
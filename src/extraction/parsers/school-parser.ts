@@ -0,0 +1,64 @@
+import type { SchoolData } from '../../models'
+import { parseCount } from '../../scrapers/utils'
+import type { RawSection } from '../page-extractors'
+import type { ParseInput, RawParser } from './types'
+
+/** School fields read from the page; the scraper supplies `linkedinUrl` */
+export type SchoolAbout = Omit<SchoolData, 'linkedinUrl'>
+
+export class SchoolParser implements RawParser<SchoolAbout> {
+  readonly sectionName = 'school'
+
+  parse(_input: ParseInput): SchoolAbout | null {
+    return null
+  }
+
+  parseRaw(sections: RawSection[]): SchoolAbout[] {
+    const school: SchoolAbout = {}
+    let summaryLocation: string | undefined
+
+    for (const section of sections) {
+      const value = section.text.trim()
+      if (!value) continue
+
+      switch (section.heading) {
+        case 'name':
+          school.name = value
+          break
+        case 'overview':
+          school.about = value
+          break
+        case 'summary': {
+          const followers = section.labels.find((label) => /\bfollowers?\b/i.test(label))
+          if (followers) school.followerCount = parseCount(followers)
+          // Summary labels read "<industry> · <location> · <followers>"
+          summaryLocation = section.labels.length >= 3 ? section.labels[1] : undefined
+          break
+        }
+        case 'website':
+          school.website = section.anchors.find((anchor) => !!anchor.href)?.href ?? value
+          break
+        case 'headquarters':
+          school.location = value
+          break
+        case 'type':
+          school.type = value
+          break
+        case 'company size':
+        case 'size':
+          school.size = value
+          break
+        case 'alumni':
+          school.alumniCount = parseCount(value)
+          break
+      }
+    }
+
+    school.location ??= summaryLocation
+    return school.name ? [school] : []
+  }
+
+  validate(item: SchoolAbout): boolean {
+    return !!item.name
+  }
+}
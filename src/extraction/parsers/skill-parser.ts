@@ -0,0 +1,77 @@
+import type { Skill } from '../../models/person'
+import { normalizePlainTextLines, toPlainText } from '../../scrapers/person/utils'
+import { parseCount } from '../../scrapers/utils'
+import type { ParseInput, Parser } from './types'
+
+const SKILL_NOISE = new Set(['endorse', 'endorsed', 'show all', 'passed linkedin skill assessment'])
+
+export class SkillParser implements Parser<Skill> {
+  readonly sectionName = 'skill'
+
+  parse(input: ParseInput): Skill | null {
+    const lines = normalizePlainTextLines(input.texts)
+    if (lines.length === 0) return null
+    if (lines.some((line) => line.includes('adds will appear here'))) return null
+
+    const name = lines[0]
+    if (!name || name === 'Skills') return null
+
+    const skill: Skill = {
+      name,
+      endorsementCount: 0,
+      endorsedBy: [],
+      associatedWith: [],
+      plainText: toPlainText(lines),
+    }
+
+    for (const line of lines.slice(1)) {
+      if (line === name || SKILL_NOISE.has(line.toLowerCase())) continue
+
+      const countMatch = line.match(/^([\d,.]+[KM]?\+?)\s+endorsements?$/i)
+      if (countMatch?.[1]) {
+        skill.endorsementCount = parseCount(countMatch[1]) ?? 0
+        continue
+      }
+
+      if (/^endorsed by\b/i.test(line)) {
+        skill.endorsedBy.push(line)
+        skill.endorsementCount = Math.max(skill.endorsementCount, countEndorsers(line))
+        continue
+      }
+
+      if (isAssociationLine(line)) skill.associatedWith.push(line)
+    }
+
+    return skill
+  }
+
+  validate(item: Skill): boolean {
+    return !!item.name && item.name.length <= 120
+  }
+}
+
+/**
+ * Lower bound on endorsers implied by a highlight line such as
+ * "Endorsed by Jane Doe and 3 others who are highly skilled at this".
+ */
+function countEndorsers(line: string): number {
+  const othersMatch = line.match(/\band ([\d,]+) others?\b/i)
+  if (othersMatch?.[1]) return (parseCount(othersMatch[1]) ?? 0) + 1
+
+  const groupMatch = line.match(/^endorsed by ([\d,]+) (?:colleagues|people)\b/i)
+  if (groupMatch?.[1]) return parseCount(groupMatch[1]) ?? 0
+
+  return 1
+}
+
+/**
+ * Association lines link the skill to positions or schools
+ * ("3 experiences at Acme and 1 other company", "Software Engineer at Acme").
+ */
+function isAssociationLine(line: string): boolean {
+  return (
+    /^\d+\s+(?:experiences?|educations?)\s+(?:at|across)\b/i.test(line) ||
+    /\bat\b/i.test(line) ||
+    /\b(?:university|college|school|institute)\b/i.test(line)
+  )
+}
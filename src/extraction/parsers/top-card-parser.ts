@@ -1,17 +1,48 @@
+import { parseCount } from '../../scrapers/utils'
 import type { ParseInput, Parser } from './types'
 
 export interface TopCardResult {
   name: string
   headline: string | null
   origin: string | null
+  /** Optional details below are only set when shown on the card */
+  pronouns?: string
+  connections?: string
+  connectionCount?: number
+  followerCount?: number
+  photoUrl?: string
+  bannerUrl?: string
+  isVerified?: boolean
+  isPremium?: boolean
+  isHiring?: boolean
+  currentCompany?: string
+  recentEducation?: string
 }
 
+const PRONOUNS_PATTERN = /^\(?(?:he|she|they|xe|ze)\/\w+(?:\/\w+)?\)?$/i
+const CONNECTIONS_PATTERN = /^([\d,.]+\+?)\s+connections?$/i
+const FOLLOWERS_PATTERN = /^([\d,.]+[KM]?)\s+followers?$/i
+const CARD_NOISE_PATTERN =
+  /^(?:[·•]\s*)?(?:1st|2nd|3rd\+?)(?:\s+degree connection)?$|^#?hiring$|^(?:open to|message|more|connect|follow)$/i
+
+type TopCardDetails = Omit<TopCardResult, 'name' | 'headline' | 'origin'>
+
 export class TopCardParser implements Parser<TopCardResult> {
   readonly sectionName = 'top-card'
 
   parse(input: ParseInput): TopCardResult | null {
-    const texts = input.texts.map((text) => text.trim()).filter(Boolean)
-    if (texts.length === 0) return null
+    const allTexts = input.texts.map((text) => text.trim()).filter(Boolean)
+    if (allTexts.length === 0) return null
+
+    const details: TopCardDetails = {}
+    const shortcuts = [input.context.currentCompany, input.context.education].filter(Boolean)
+    const texts: string[] = []
+
+    for (const text of allTexts) {
+      if (texts.length > 0 && applyCardDetail(text, details)) continue
+      if (texts.length > 0 && (CARD_NOISE_PATTERN.test(text) || shortcuts.includes(text))) continue
+      texts.push(text)
+    }
 
     const name = texts[0] ?? 'Unknown'
     const headline = texts.length > 1 ? (texts[1] ?? null) : null
@@ -23,6 +54,14 @@ export class TopCardParser implements Parser<TopCardResult> {
       name,
       headline: headline === name ? null : headline,
       origin,
+      ...details,
+      photoUrl: input.context.photoUrl,
+      bannerUrl: input.context.bannerUrl,
+      isVerified: input.context.verified === 'true' || undefined,
+      isPremium: input.context.premium === 'true' || undefined,
+      isHiring: input.context.hiring === 'true' || undefined,
+      currentCompany: input.context.currentCompany,
+      recentEducation: input.context.education,
     }
   }
 
@@ -30,3 +69,32 @@ export class TopCardParser implements Parser<TopCardResult> {
     return !!item.name && item.name !== 'Unknown'
   }
 }
+
+/**
+ * Applies pronouns and network counts to the result.
+ * Returns true when the line was one of those details.
+ */
+function applyCardDetail(text: string, details: TopCardDetails): boolean {
+  const parts = text.split(/\s+[·•]\s+/)
+  if (parts.length > 1) return parts.every((part) => applyCardDetail(part, details))
+
+  if (PRONOUNS_PATTERN.test(text)) {
+    details.pronouns = text.replace(/[()]/g, '')
+    return true
+  }
+
+  const connectionsMatch = text.match(CONNECTIONS_PATTERN)
+  if (connectionsMatch?.[1]) {
+    details.connections = connectionsMatch[1]
+    details.connectionCount = parseCount(connectionsMatch[1])
+    return true
+  }
+
+  const followersMatch = text.match(FOLLOWERS_PATTERN)
+  if (followersMatch?.[1]) {
+    details.followerCount = parseCount(followersMatch[1])
+    return true
+  }
+
+  return false
+}
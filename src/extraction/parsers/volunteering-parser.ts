@@ -0,0 +1,59 @@
+import type { Volunteering } from '../../models/person'
+import { isDateLine, isDescriptionLike, parseDateRange, toPlainText } from '../../scrapers/person/utils'
+import type { ParseInput, Parser } from './types'
+
+export class VolunteeringParser implements Parser<Volunteering> {
+  readonly sectionName = 'volunteering'
+
+  parse(input: ParseInput): Volunteering | null {
+    const texts = input.texts.map((t) => t.trim()).filter(Boolean)
+    if (texts.length === 0) return null
+    if (texts.some((text) => text.includes('adds will appear here'))) return null
+
+    const role = texts[0]
+    if (!role || role === 'Volunteering') return null
+
+    const organization = texts[1] && !isDateLine(texts[1]) ? texts[1] : undefined
+
+    let fromDate: string | undefined
+    let toDate: string | undefined
+    let duration: string | undefined
+    let cause: string | undefined
+    const descriptionLines: string[] = []
+
+    for (const line of texts.slice(organization ? 2 : 1)) {
+      if (!fromDate && isDateLine(line)) {
+        const parsed = parseDateRange(line, { includeDuration: true })
+        fromDate = parsed.fromDate ?? undefined
+        toDate = parsed.toDate ?? undefined
+        duration = parsed.duration ?? undefined
+        continue
+      }
+
+      if (!cause && descriptionLines.length === 0 && !isDescriptionLike(line)) {
+        cause = line
+        continue
+      }
+
+      descriptionLines.push(line)
+    }
+
+    const organizationUrl = input.links.find((link) => /linkedin\.com\/(?:company|school)\//.test(link.url))?.url
+
+    return {
+      role,
+      organization,
+      organizationUrl,
+      cause,
+      fromDate,
+      toDate,
+      duration,
+      description: descriptionLines.join('\n') || undefined,
+      plainText: toPlainText(texts),
+    }
+  }
+
+  validate(item: Volunteering): boolean {
+    return !!item.role && (!!item.organization || !!item.fromDate)
+  }
+}
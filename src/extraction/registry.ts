@@ -54,6 +54,38 @@ const DEFAULT_VERSION: SelectorVersion = {
       ],
       containerSelectors: ['main'],
     },
+    volunteering: {
+      itemSelectors: [
+        '.pvs-list__paged-list-item',
+        'li.artdeco-list__item',
+        'div[data-view-name="profile-component-entity"]',
+        '[componentkey^="entity-collection-item"]',
+        'main ul > li',
+      ],
+      containerSelectors: ['main'],
+    },
+    featured: {
+      itemSelectors: [
+        '.pvs-list__paged-list-item',
+        'li.artdeco-list__item',
+        'div[data-view-name="profile-component-entity"]',
+        'main ul > li',
+      ],
+      containerSelectors: ['main'],
+    },
+    skill: {
+      itemSelectors: [
+        '[data-view-name="profile-component-entity"]',
+        '.pvs-list__container .pvs-list__paged-list-item',
+        'li.artdeco-list__item',
+        'main ul > li',
+      ],
+      containerSelectors: ['main'],
+    },
+    recommendation: {
+      itemSelectors: ['[role="tabpanel"] li', '[role="tabpanel"] .pvs-list__paged-list-item', 'main ul > li'],
+      containerSelectors: ['main'],
+    },
     interest: {
       itemSelectors: ['[role="tabpanel"] li', '[role="tabpanel"] .pvs-list__paged-list-item', 'main ul > li'],
       containerSelectors: ['main'],
@@ -74,6 +106,79 @@ const DEFAULT_VERSION: SelectorVersion = {
       ],
       containerSelectors: ['main'],
     },
+    company: {
+      itemSelectors: ['dl > dt', 'dl dt'],
+      containerSelectors: ['main', 'body'],
+    },
+    'company-people': {
+      itemSelectors: [
+        'li.org-people-profile-card__profile-card-spacing',
+        '.org-people-profile-card',
+        '.scaffold-finite-scroll__content ul > li',
+      ],
+      containerSelectors: ['main'],
+    },
+    'job-posting': {
+      itemSelectors: ['.job-details-jobs-unified-top-card__container--two-pane', '.jobs-unified-top-card'],
+      containerSelectors: [
+        '.job-details-jobs-unified-top-card__container--two-pane',
+        '.jobs-unified-top-card',
+        '.jobs-details__main-content',
+      ],
+    },
+    'job-description': {
+      itemSelectors: ['#job-details', '.jobs-description__content'],
+      containerSelectors: ['#job-details', '.jobs-description__content', '.jobs-box__html-content'],
+    },
+    'job-search': {
+      itemSelectors: [
+        'li[data-occludable-job-id]',
+        '.jobs-search-results__list-item',
+        '.scaffold-layout__list li:has([data-job-id])',
+      ],
+      containerSelectors: ['main'],
+    },
+    'people-search': {
+      itemSelectors: [
+        'li.reusable-search__result-container',
+        'div[data-chameleon-result-urn]',
+        '[data-view-name="search-entity-result-universal-template"]',
+        'main ul[role="list"] > li',
+      ],
+      containerSelectors: ['main'],
+    },
+    post: {
+      itemSelectors: [
+        'div[data-urn^="urn:li:activity"]',
+        'li.profile-creator-shared-feed-update__container',
+        '.feed-shared-update-v2',
+      ],
+      containerSelectors: ['main'],
+    },
+    'my-connections': {
+      itemSelectors: ['li.mn-connection-card', '[data-view-name="connections-list"] > div', 'main ul > li'],
+      containerSelectors: ['main'],
+    },
+    conversation: {
+      itemSelectors: ['li.msg-conversation-listitem', 'li.msg-conversations-container__convo-item', 'ul > li'],
+      containerSelectors: ['.msg-conversations-container__conversations-list', '.msg-conversations-container'],
+    },
+    message: {
+      itemSelectors: ['li.msg-s-message-list__event', 'li.msg-s-event-listitem', 'ul > li'],
+      containerSelectors: ['.msg-s-message-list', '.msg-s-message-list-container'],
+    },
+    'post-reactions': {
+      itemSelectors: ['li.social-details-reactors-tab-body-list-item', '.artdeco-list__item', 'ul > li'],
+      containerSelectors: ['dialog', '[role="dialog"]', '.artdeco-modal'],
+    },
+    'post-comments': {
+      itemSelectors: [
+        'article.comments-comment-entity',
+        'article.comments-comment-item',
+        '.comments-comment-list article',
+      ],
+      containerSelectors: ['main'],
+    },
   },
 }
 
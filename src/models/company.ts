@@ -0,0 +1,44 @@
+import { z } from 'zod'
+
+export const CompanySchema = z.object({
+  linkedinUrl: z.string().refine((url) => url.includes('linkedin.com/company/'), {
+    message: 'Must be a valid LinkedIn company URL (contains /company/)',
+  }),
+  name: z.string().optional(),
+  tagline: z.string().optional(),
+  industry: z.string().optional(),
+  companySize: z.string().optional(),
+  headquarters: z.string().optional(),
+  founded: z.string().optional(),
+  specialties: z.array(z.string()).default([]),
+  website: z.string().optional(),
+  followerCount: z.number().optional(),
+  about: z.string().optional(),
+})
+
+export type CompanyData = z.infer<typeof CompanySchema>
+
+/**
+ * Factory function to create and validate a Company data object
+ * @param data - Raw company data to validate
+ * @returns Validated CompanyData object
+ */
+export function createCompany(data: CompanyData): CompanyData {
+  return CompanySchema.parse(data)
+}
+
+/**
+ * Convert CompanyData to a formatted string representation
+ * @param company - CompanyData object
+ * @returns Formatted string with company details
+ */
+export function companyToString(company: CompanyData): string {
+  return (
+    `<Company ${company.name}\n` +
+    `  Tagline: ${company.tagline}\n` +
+    `  Industry: ${company.industry}\n` +
+    `  Size: ${company.companySize}\n` +
+    `  Headquarters: ${company.headquarters}\n` +
+    `  Followers: ${company.followerCount}>`
+  )
+}
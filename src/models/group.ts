@@ -0,0 +1,24 @@
+import { z } from 'zod'
+
+export const GroupSchema = z.object({
+  linkedinUrl: z.string().refine((url) => url.includes('linkedin.com/groups/'), {
+    message: 'Must be a valid LinkedIn group URL (contains /groups/)',
+  }),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  memberCount: z.number().optional(),
+  /** Group owner, or the first listed admin when no owner is shown */
+  owner: z.string().optional(),
+  ownerUrl: z.string().optional(),
+})
+
+export type GroupData = z.infer<typeof GroupSchema>
+
+/**
+ * Factory function to create and validate a Group data object
+ * @param data - Raw group data to validate
+ * @returns Validated GroupData object
+ */
+export function createGroup(data: GroupData): GroupData {
+  return GroupSchema.parse(data)
+}
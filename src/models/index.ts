@@ -1 +1,8 @@
+export * from './company'
+export * from './group'
+export * from './job'
+export * from './message'
+export * from './newsletter'
 export * from './person'
+export * from './post'
+export * from './school'
@@ -0,0 +1,42 @@
+import { z } from 'zod'
+
+export const JobPostingSchema = z.object({
+  linkedinUrl: z.string().refine((url) => url.includes('linkedin.com/jobs/view/'), {
+    message: 'Must be a valid LinkedIn job URL (contains /jobs/view/)',
+  }),
+  jobId: z.string().optional(),
+  title: z.string().optional(),
+  company: z.string().optional(),
+  companyUrl: z.string().optional(),
+  location: z.string().optional(),
+  workplaceType: z.string().optional(),
+  employmentType: z.string().optional(),
+  postedDate: z.string().optional(),
+  applicantCount: z.number().optional(),
+  salaryRange: z.string().optional(),
+  description: z.string().optional(),
+  skills: z.array(z.string()).default([]),
+})
+
+export type JobPosting = z.infer<typeof JobPostingSchema>
+
+export const JobStubSchema = z.object({
+  jobId: z.string(),
+  linkedinUrl: z.string(),
+  title: z.string(),
+  company: z.string().optional(),
+  location: z.string().optional(),
+  postedDate: z.string().optional(),
+  plainText: z.string().optional(),
+})
+
+export type JobStub = z.infer<typeof JobStubSchema>
+
+/**
+ * Factory function to create and validate a JobPosting data object
+ * @param data - Raw job posting data to validate
+ * @returns Validated JobPosting object
+ */
+export function createJobPosting(data: JobPosting): JobPosting {
+  return JobPostingSchema.parse(data)
+}
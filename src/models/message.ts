@@ -0,0 +1,51 @@
+import { z } from 'zod'
+
+export const ConversationSchema = z.object({
+  threadUrl: z.string().optional(),
+  participants: z.array(z.string()).default([]),
+  snippet: z.string().optional(),
+  /** Timestamp as displayed in the inbox, e.g. "3:45 PM", "Mon" or "Jan 5" */
+  timestamp: z.string().optional(),
+  unread: z.boolean().default(false),
+  plainText: z.string().optional(),
+})
+
+export type Conversation = z.infer<typeof ConversationSchema>
+
+export const MessageAttachmentSchema = z.object({
+  kind: z.enum(['file', 'image', 'video', 'link']),
+  name: z.string().optional(),
+  url: z.string().optional(),
+})
+
+export type MessageAttachment = z.infer<typeof MessageAttachmentSchema>
+
+export const MessageSchema = z.object({
+  urn: z.string().optional(),
+  sender: z.string().optional(),
+  senderUrl: z.string().optional(),
+  text: z.string().optional(),
+  /** Day heading and time as displayed, e.g. "Today 3:45 PM" */
+  timestamp: z.string().optional(),
+  attachments: z.array(MessageAttachmentSchema).default([]),
+  plainText: z.string().optional(),
+})
+
+export type Message = z.infer<typeof MessageSchema>
+
+export const MessageThreadSchema = z.object({
+  threadUrl: z.string(),
+  participants: z.array(z.string()).default([]),
+  messages: z.array(MessageSchema).default([]),
+})
+
+export type MessageThread = z.infer<typeof MessageThreadSchema>
+
+/**
+ * Factory function to create and validate a MessageThread data object
+ * @param data - Raw thread data to validate
+ * @returns Validated MessageThread object
+ */
+export function createMessageThread(data: MessageThread): MessageThread {
+  return MessageThreadSchema.parse(data)
+}
@@ -0,0 +1,24 @@
+import { z } from 'zod'
+
+export const NewsletterSchema = z.object({
+  linkedinUrl: z.string().refine((url) => url.includes('linkedin.com/newsletters/'), {
+    message: 'Must be a valid LinkedIn newsletter URL (contains /newsletters/)',
+  }),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  subscriberCount: z.number().optional(),
+  /** Publishing member or company */
+  owner: z.string().optional(),
+  ownerUrl: z.string().optional(),
+})
+
+export type NewsletterData = z.infer<typeof NewsletterSchema>
+
+/**
+ * Factory function to create and validate a Newsletter data object
+ * @param data - Raw newsletter data to validate
+ * @returns Validated NewsletterData object
+ */
+export function createNewsletter(data: NewsletterData): NewsletterData {
+  return NewsletterSchema.parse(data)
+}
@@ -1,9 +1,15 @@
 import { z } from 'zod'
+import { PostSchema } from './post'
 
 export const InterestSchema = z.object({
   name: z.string(),
   category: z.string(),
   linkedinUrl: z.string().optional(),
+  /** Group and newsletter details, filled in when interests are enriched */
+  description: z.string().optional(),
+  memberCount: z.number().optional(),
+  subscriberCount: z.number().optional(),
+  owner: z.string().optional(),
   plainText: z.string().optional(),
 })
 
@@ -18,6 +24,15 @@ export const ContactSchema = z.object({
 
 export type Contact = z.infer<typeof ContactSchema>
 
+export const PositionMediaSchema = z.object({
+  kind: z.enum(['link', 'document', 'image', 'video']),
+  title: z.string().optional(),
+  url: z.string().optional(),
+  thumbnailUrl: z.string().optional(),
+})
+
+export type PositionMedia = z.infer<typeof PositionMediaSchema>
+
 export const PositionSchema = z.object({
   title: z.string().optional(),
   description: z.string().optional(),
@@ -26,6 +41,10 @@ export const PositionSchema = z.object({
   duration: z.string().optional(),
   location: z.string().optional(),
   employmentType: z.string().optional(),
+  skills: z.array(z.string()).default([]),
+  /** Number of skills folded behind LinkedIn's "+N skills" marker; `skills` is incomplete when set */
+  hiddenSkillCount: z.number().optional(),
+  media: z.array(PositionMediaSchema).default([]),
   plainText: z.string().optional(),
 })
 
@@ -43,33 +62,52 @@ export type Experience = z.infer<typeof ExperienceSchema>
 export const EducationSchema = z.object({
   institutionName: z.string().optional(),
   degree: z.string().optional(),
+  fieldOfStudy: z.string().optional(),
   linkedinUrl: z.string().optional(),
   fromDate: z.string().optional(),
   toDate: z.string().optional(),
+  grade: z.string().optional(),
+  activitiesAndSocieties: z.string().optional(),
   description: z.string().optional(),
   plainText: z.string().optional(),
 })
 
 export type Education = z.infer<typeof EducationSchema>
 
-export const AccomplishmentSchema = z.object({
-  category: z.string(),
-  title: z.string(),
-  issuer: z.string().optional(),
-  issuedDate: z.string().optional(),
-  credentialId: z.string().optional(),
-  credentialUrl: z.string().optional(),
+export const VolunteeringSchema = z.object({
+  role: z.string().optional(),
+  organization: z.string().optional(),
+  organizationUrl: z.string().optional(),
+  cause: z.string().optional(),
+  fromDate: z.string().optional(),
+  toDate: z.string().optional(),
+  duration: z.string().optional(),
   description: z.string().optional(),
   plainText: z.string().optional(),
 })
 
-export type Accomplishment = z.infer<typeof AccomplishmentSchema>
+export type Volunteering = z.infer<typeof VolunteeringSchema>
+
+export const PatentInventorSchema = z.object({
+  name: z.string(),
+  linkedinUrl: z.string().optional(),
+})
+
+export type PatentInventor = z.infer<typeof PatentInventorSchema>
 
 export const PatentSchema = z.object({
   title: z.string(),
+  /** Patent office code, e.g. "US". Kept alongside `office` for compatibility. */
   issuer: z.string().optional(),
+  office: z.string().optional(),
+  /** Patent number for issued patents, e.g. "11,123,456 B2" */
   number: z.string().optional(),
+  /** Application number for pending patents, e.g. "17/123,456" */
+  applicationNumber: z.string().optional(),
+  status: z.enum(['issued', 'pending']).optional(),
   issuedDate: z.string().optional(),
+  filingDate: z.string().optional(),
+  inventors: z.array(PatentInventorSchema).default([]),
   url: z.string().optional(),
   description: z.string().optional(),
   plainText: z.string().optional(),
@@ -77,6 +115,176 @@ export const PatentSchema = z.object({
 
 export type Patent = z.infer<typeof PatentSchema>
 
+const AccomplishmentBaseSchema = z.object({
+  title: z.string(),
+  description: z.string().optional(),
+  plainText: z.string().optional(),
+})
+
+export const CertificationSchema = AccomplishmentBaseSchema.extend({
+  category: z.literal('certification'),
+  issuer: z.string().optional(),
+  issuedDate: z.string().optional(),
+  expirationDate: z.string().optional(),
+  credentialId: z.string().optional(),
+  credentialUrl: z.string().optional(),
+})
+
+export const HonorSchema = AccomplishmentBaseSchema.extend({
+  category: z.literal('honor'),
+  issuer: z.string().optional(),
+  issuedDate: z.string().optional(),
+  associatedWith: z.string().optional(),
+})
+
+export const PublicationSchema = AccomplishmentBaseSchema.extend({
+  category: z.literal('publication'),
+  publisher: z.string().optional(),
+  date: z.string().optional(),
+  coAuthors: z.array(z.string()).default([]),
+  url: z.string().optional(),
+})
+
+export const PatentAccomplishmentSchema = PatentSchema.extend({
+  category: z.literal('patent'),
+})
+
+export const CourseSchema = AccomplishmentBaseSchema.extend({
+  category: z.literal('course'),
+  number: z.string().optional(),
+  associatedWith: z.string().optional(),
+})
+
+export const ProjectSchema = AccomplishmentBaseSchema.extend({
+  category: z.literal('project'),
+  fromDate: z.string().optional(),
+  toDate: z.string().optional(),
+  associatedWith: z.string().optional(),
+  contributors: z.array(z.string()).default([]),
+  url: z.string().optional(),
+})
+
+export const LanguageSchema = AccomplishmentBaseSchema.extend({
+  category: z.literal('language'),
+  proficiency: z.string().optional(),
+})
+
+export const OrganizationSchema = AccomplishmentBaseSchema.extend({
+  category: z.literal('organization'),
+  position: z.string().optional(),
+  fromDate: z.string().optional(),
+  toDate: z.string().optional(),
+  associatedWith: z.string().optional(),
+})
+
+export const TestScoreSchema = AccomplishmentBaseSchema.extend({
+  category: z.literal('test-score'),
+  score: z.string().optional(),
+  date: z.string().optional(),
+  associatedWith: z.string().optional(),
+})
+
+export const AccomplishmentSchema = z.discriminatedUnion('category', [
+  CertificationSchema,
+  HonorSchema,
+  PublicationSchema,
+  PatentAccomplishmentSchema,
+  CourseSchema,
+  ProjectSchema,
+  LanguageSchema,
+  OrganizationSchema,
+  TestScoreSchema,
+])
+
+export type Accomplishment = z.infer<typeof AccomplishmentSchema>
+export type AccomplishmentCategory = Accomplishment['category']
+export type AccomplishmentOf<C extends AccomplishmentCategory> = Extract<Accomplishment, { category: C }>
+
+export const SkillSchema = z.object({
+  name: z.string(),
+  endorsementCount: z.number().default(0),
+  endorsedBy: z.array(z.string()).default([]),
+  associatedWith: z.array(z.string()).default([]),
+  plainText: z.string().optional(),
+})
+
+export type Skill = z.infer<typeof SkillSchema>
+
+/**
+ * A recommendation from the profile's Recommendations section. For `given` recommendations
+ * the author fields describe the member who was recommended.
+ */
+export const RecommendationSchema = z.object({
+  type: z.enum(['received', 'given']),
+  authorName: z.string(),
+  authorUrl: z.string().optional(),
+  authorHeadline: z.string().optional(),
+  relationship: z.string().optional(),
+  date: z.string().optional(),
+  text: z.string().optional(),
+  plainText: z.string().optional(),
+})
+
+export type Recommendation = z.infer<typeof RecommendationSchema>
+
+export const FeaturedItemSchema = z.object({
+  kind: z.enum(['post', 'article', 'link', 'document', 'media']),
+  title: z.string().optional(),
+  subtitle: z.string().optional(),
+  url: z.string().optional(),
+  thumbnailUrl: z.string().optional(),
+  plainText: z.string().optional(),
+})
+
+export type FeaturedItem = z.infer<typeof FeaturedItemSchema>
+
+/**
+ * Preferences from the "Open to work" card (`kind: 'jobs'`) or the
+ * "Providing services" card (`kind: 'services'`).
+ */
+export const OpenToWorkSchema = z.object({
+  kind: z.enum(['jobs', 'services']),
+  jobTitles: z.array(z.string()).default([]),
+  services: z.array(z.string()).default([]),
+  locations: z.array(z.string()).default([]),
+  workplaceTypes: z.array(z.string()).default([]),
+  employmentTypes: z.array(z.string()).default([]),
+  startDate: z.string().optional(),
+  plainText: z.string().optional(),
+})
+
+export type OpenToWork = z.infer<typeof OpenToWorkSchema>
+
+export const PersonStubSchema = z.object({
+  name: z.string(),
+  headline: z.string().optional(),
+  location: z.string().optional(),
+  linkedinUrl: z.string(),
+  connectionDegree: z.string().optional(),
+  mutualConnections: z.string().optional(),
+  plainText: z.string().optional(),
+})
+
+export type PersonStub = z.infer<typeof PersonStubSchema>
+
+export const RelatedProfileSchema = PersonStubSchema.extend({
+  /** Sidebar the profile was listed in */
+  source: z.enum(['people-also-viewed', 'people-you-may-know']),
+})
+
+export type RelatedProfile = z.infer<typeof RelatedProfileSchema>
+
+export const ConnectionSchema = z.object({
+  name: z.string(),
+  headline: z.string().optional(),
+  linkedinUrl: z.string(),
+  /** Connection date as displayed, e.g. "March 3, 2024" or "2 weeks ago" */
+  connectedOn: z.string().optional(),
+  plainText: z.string().optional(),
+})
+
+export type Connection = z.infer<typeof ConnectionSchema>
+
 export const PersonSchema = z.object({
   linkedinUrl: z.string().refine((url) => url.includes('linkedin.com/in/'), {
     message: 'Must be a valid LinkedIn profile URL (contains /in/)',
@@ -85,14 +293,37 @@ export const PersonSchema = z.object({
   headline: z.string().optional(),
   origin: z.string().optional(),
   location: z.string().optional(),
+  pronouns: z.string().optional(),
+  /** Connection count as displayed, e.g. "500+" */
+  connections: z.string().optional(),
+  connectionCount: z.number().optional(),
+  followerCount: z.number().optional(),
+  photoUrl: z.string().optional(),
+  bannerUrl: z.string().optional(),
+  isVerified: z.boolean().default(false),
+  isPremium: z.boolean().default(false),
+  isHiring: z.boolean().default(false),
+  currentCompany: z.string().optional(),
+  recentEducation: z.string().optional(),
   about: z.string().optional(),
+  featured: z.array(FeaturedItemSchema).default([]),
   openToWork: z.boolean().default(false),
+  openToWorkDetails: OpenToWorkSchema.optional(),
+  providingServices: OpenToWorkSchema.optional(),
   experiences: z.array(ExperienceSchema).default([]),
   educations: z.array(EducationSchema).default([]),
+  volunteering: z.array(VolunteeringSchema).default([]),
   patents: z.array(PatentSchema).default([]),
+  skills: z.array(SkillSchema).default([]),
+  recommendations: z.array(RecommendationSchema).default([]),
   interests: z.array(InterestSchema).default([]),
   accomplishments: z.array(AccomplishmentSchema).default([]),
   contacts: z.array(ContactSchema).default([]),
+  posts: z.array(PostSchema).default([]),
+  relatedProfiles: z.array(RelatedProfileSchema).default([]),
+  /** Mutual connection count from the top card, e.g. 14 for "A, B and 12 other mutual connections" */
+  mutualConnectionCount: z.number().optional(),
+  mutualConnections: z.array(PersonStubSchema).default([]),
 })
 
 export type PersonData = z.infer<typeof PersonSchema>
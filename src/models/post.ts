@@ -0,0 +1,63 @@
+import { z } from 'zod'
+
+export const PostSchema = z.object({
+  urn: z.string().optional(),
+  url: z.string().optional(),
+  text: z.string().optional(),
+  postedAgo: z.string().optional(),
+  postedDate: z.string().optional(),
+  reactionCount: z.number().default(0),
+  commentCount: z.number().default(0),
+  repostCount: z.number().default(0),
+  mediaType: z.enum(['none', 'image', 'video', 'document', 'article', 'poll']).default('none'),
+  resharedFrom: z
+    .object({
+      name: z.string(),
+      linkedinUrl: z.string().optional(),
+    })
+    .optional(),
+  plainText: z.string().optional(),
+})
+
+export type Post = z.infer<typeof PostSchema>
+
+export const PostReactorSchema = z.object({
+  name: z.string(),
+  headline: z.string().optional(),
+  linkedinUrl: z.string().optional(),
+  connectionDegree: z.string().optional(),
+  reactionType: z.string().optional(),
+  plainText: z.string().optional(),
+})
+
+export type PostReactor = z.infer<typeof PostReactorSchema>
+
+export const PostCommentSchema = z.object({
+  authorName: z.string(),
+  authorHeadline: z.string().optional(),
+  authorUrl: z.string().optional(),
+  text: z.string().optional(),
+  postedAgo: z.string().optional(),
+  postedDate: z.string().optional(),
+  reactionCount: z.number().default(0),
+  plainText: z.string().optional(),
+})
+
+export type PostComment = z.infer<typeof PostCommentSchema>
+
+export const PostEngagementSchema = z.object({
+  postUrl: z.string(),
+  reactors: z.array(PostReactorSchema).default([]),
+  comments: z.array(PostCommentSchema).default([]),
+})
+
+export type PostEngagement = z.infer<typeof PostEngagementSchema>
+
+/**
+ * Factory function to create and validate a PostEngagement data object
+ * @param data - Raw engagement data to validate
+ * @returns Validated PostEngagement object
+ */
+export function createPostEngagement(data: PostEngagement): PostEngagement {
+  return PostEngagementSchema.parse(data)
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod'
+
+export const SchoolSchema = z.object({
+  linkedinUrl: z.string().refine((url) => url.includes('linkedin.com/school/'), {
+    message: 'Must be a valid LinkedIn school URL (contains /school/)',
+  }),
+  name: z.string().optional(),
+  location: z.string().optional(),
+  /** Organization type, e.g. "Educational" or "Nonprofit" */
+  type: z.string().optional(),
+  /** Size range as displayed, e.g. "10,001+ employees" */
+  size: z.string().optional(),
+  website: z.string().optional(),
+  followerCount: z.number().optional(),
+  about: z.string().optional(),
+  alumniCount: z.number().optional(),
+})
+
+export type SchoolData = z.infer<typeof SchoolSchema>
+
+/**
+ * Factory function to create and validate a School data object
+ * @param data - Raw school data to validate
+ * @returns Validated SchoolData object
+ */
+export function createSchool(data: SchoolData): SchoolData {
+  return SchoolSchema.parse(data)
+}
@@ -0,0 +1,46 @@
+import type { Page } from 'playwright'
+import { GroupPageExtractor, NewsletterPageExtractor } from '../../extraction/page-extractors'
+import { type GroupAbout, GroupParser, type NewsletterAbout, NewsletterParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import { log } from '../../utils/logger'
+
+export async function getGroupAbout(page: Page, baseUrl: string): Promise<GroupAbout | null> {
+  try {
+    const pipeline = new ExtractionPipeline<GroupAbout>({
+      pageExtractor: new GroupPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new GroupParser(),
+      confidenceThreshold: 0,
+      captureHtmlOnFailure: true,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl })
+    log.info(`Got group details (items: ${result.items.length})`)
+
+    return result.items[0] ?? null
+  } catch (e) {
+    log.warning(`Error getting group details: ${e}`)
+    return null
+  }
+}
+
+export async function getNewsletterAbout(page: Page, baseUrl: string): Promise<NewsletterAbout | null> {
+  try {
+    const pipeline = new ExtractionPipeline<NewsletterAbout>({
+      pageExtractor: new NewsletterPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new NewsletterParser(),
+      confidenceThreshold: 0,
+      captureHtmlOnFailure: true,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl })
+    log.info(`Got newsletter details (items: ${result.items.length})`)
+
+    return result.items[0] ?? null
+  } catch (e) {
+    log.warning(`Error getting newsletter details: ${e}`)
+    return null
+  }
+}
@@ -0,0 +1,80 @@
+import type { Page } from 'playwright'
+import type { ProgressCallback } from '../../callbacks'
+import { ScrapingError } from '../../exceptions'
+import type { GroupData, NewsletterData } from '../../models'
+import { createGroup, createNewsletter } from '../../models'
+import { log } from '../../utils/logger'
+import { ensureLoggedIn, navigateAndWait, waitAndFocus } from '../utils'
+import { getGroupAbout, getNewsletterAbout } from './about'
+
+export interface CommunityScraperOptions {
+  callback?: ProgressCallback
+}
+
+/**
+ * Scrapes a LinkedIn group page (`/groups/<id>/`).
+ */
+export async function scrapeGroup(page: Page, groupUrl: string, options?: CommunityScraperOptions): Promise<GroupData> {
+  const callback = options?.callback
+
+  await callback?.onStart('group', groupUrl)
+
+  try {
+    await navigateAndWait(page, groupUrl, callback)
+    log.debug('Navigated to group page')
+
+    await ensureLoggedIn(page)
+
+    await page.waitForSelector('main', { timeout: 10000 })
+    await waitAndFocus(page, 1)
+
+    const about = await getGroupAbout(page, groupUrl)
+    log.debug(`Got group: ${about?.name}`)
+
+    const group = createGroup({ linkedinUrl: groupUrl, ...about } as GroupData)
+
+    log.debug('Scraping complete')
+    await callback?.onComplete('group', group)
+
+    return group
+  } catch (e: any) {
+    await callback?.onError(`Failed to scrape group page: ${e.message}`, e)
+    throw new ScrapingError(`Failed to scrape group page: ${e.message}`)
+  }
+}
+
+/**
+ * Scrapes a LinkedIn newsletter page (`/newsletters/<id>/`).
+ */
+export async function scrapeNewsletter(
+  page: Page,
+  newsletterUrl: string,
+  options?: CommunityScraperOptions,
+): Promise<NewsletterData> {
+  const callback = options?.callback
+
+  await callback?.onStart('newsletter', newsletterUrl)
+
+  try {
+    await navigateAndWait(page, newsletterUrl, callback)
+    log.debug('Navigated to newsletter page')
+
+    await ensureLoggedIn(page)
+
+    await page.waitForSelector('main', { timeout: 10000 })
+    await waitAndFocus(page, 1)
+
+    const about = await getNewsletterAbout(page, newsletterUrl)
+    log.debug(`Got newsletter: ${about?.name}`)
+
+    const newsletter = createNewsletter({ linkedinUrl: newsletterUrl, ...about } as NewsletterData)
+
+    log.debug('Scraping complete')
+    await callback?.onComplete('newsletter', newsletter)
+
+    return newsletter
+  } catch (e: any) {
+    await callback?.onError(`Failed to scrape newsletter page: ${e.message}`, e)
+    throw new ScrapingError(`Failed to scrape newsletter page: ${e.message}`)
+  }
+}
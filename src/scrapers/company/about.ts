@@ -0,0 +1,26 @@
+import type { Page } from 'playwright'
+import { CompanyPageExtractor } from '../../extraction/page-extractors'
+import { type CompanyAbout, CompanyParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import { log } from '../../utils/logger'
+
+export async function getCompanyAbout(page: Page, baseUrl: string): Promise<CompanyAbout | null> {
+  try {
+    const pipeline = new ExtractionPipeline<CompanyAbout>({
+      pageExtractor: new CompanyPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new CompanyParser(),
+      confidenceThreshold: 0,
+      captureHtmlOnFailure: true,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl })
+    log.info(`Got company about section (items: ${result.items.length})`)
+
+    return result.items[0] ?? null
+  } catch (e) {
+    log.warning(`Error getting company about section: ${e}`)
+    return null
+  }
+}
@@ -0,0 +1,36 @@
+import type { Page } from 'playwright'
+import { RateLimitError } from '../../exceptions'
+import { type CompanyPeopleFilters, CompanyPeoplePageExtractor } from '../../extraction/page-extractors'
+import { PersonStubParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { PersonStub } from '../../models'
+import { log } from '../../utils/logger'
+
+export async function getCompanyEmployees(
+  page: Page,
+  baseUrl: string,
+  options: { filters?: CompanyPeopleFilters; maxResults?: number } = {},
+): Promise<PersonStub[]> {
+  try {
+    const pipeline = new ExtractionPipeline<PersonStub>({
+      pageExtractor: new CompanyPeoplePageExtractor(options),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new PersonStubParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (stub) => stub.linkedinUrl,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl })
+    log.info(
+      `Got ${result.items.length} employees (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    return result.items
+  } catch (e) {
+    if (e instanceof RateLimitError) throw e
+    log.warning(`Error getting company employees: ${e}`)
+    return []
+  }
+}
@@ -0,0 +1,92 @@
+import type { Page } from 'playwright'
+import type { ProgressCallback } from '../../callbacks'
+import { RateLimitError, ScrapingError } from '../../exceptions'
+import type { CompanyPeopleFilters } from '../../extraction/page-extractors'
+import type { CompanyData, PersonStub } from '../../models'
+import { createCompany } from '../../models'
+import { log } from '../../utils/logger'
+import { ensureLoggedIn, navigateAndWait, waitAndFocus } from '../utils'
+import { getCompanyAbout } from './about'
+import { getCompanyEmployees } from './employees'
+
+export interface CompanyScraperOptions {
+  callback?: ProgressCallback
+}
+
+/**
+ * Scrapes a LinkedIn company page.
+ */
+export async function scrapeCompany(
+  page: Page,
+  companyUrl: string,
+  options?: CompanyScraperOptions,
+): Promise<CompanyData> {
+  const callback = options?.callback
+
+  await callback?.onStart('company', companyUrl)
+
+  try {
+    await navigateAndWait(page, companyUrl, callback)
+    log.debug('Navigated to company page')
+
+    await ensureLoggedIn(page)
+
+    await page.waitForSelector('main', { timeout: 10000 })
+    await waitAndFocus(page, 1)
+
+    const about = await getCompanyAbout(page, companyUrl)
+    log.debug(`Got company: ${about?.name}`)
+
+    const company = createCompany({
+      linkedinUrl: companyUrl,
+      ...about,
+    } as CompanyData)
+
+    log.debug('Scraping complete')
+    await callback?.onComplete('company', company)
+
+    return company
+  } catch (e: any) {
+    await callback?.onError(`Failed to scrape company page: ${e.message}`, e)
+    throw new ScrapingError(`Failed to scrape company page: ${e.message}`)
+  }
+}
+
+export interface CompanyEmployeesOptions {
+  callback?: ProgressCallback
+  /** Facet filters applied to the People tab */
+  filters?: CompanyPeopleFilters
+  /** Maximum number of employees to return (default 50) */
+  maxResults?: number
+}
+
+/**
+ * Scrapes the employee listing from a company's People tab.
+ * Returned stubs can be passed to `scrapePerson`.
+ */
+export async function scrapeCompanyEmployees(
+  page: Page,
+  companyUrl: string,
+  options?: CompanyEmployeesOptions,
+): Promise<PersonStub[]> {
+  const callback = options?.callback
+
+  await callback?.onStart('company-employees', companyUrl)
+
+  try {
+    await navigateAndWait(page, companyUrl, callback)
+    await ensureLoggedIn(page)
+
+    const employees = await getCompanyEmployees(page, companyUrl, {
+      filters: options?.filters,
+      maxResults: options?.maxResults,
+    })
+
+    await callback?.onComplete('company-employees', employees)
+    return employees
+  } catch (e: any) {
+    await callback?.onError(`Failed to scrape company employees: ${e.message}`, e)
+    if (e instanceof RateLimitError) throw e
+    throw new ScrapingError(`Failed to scrape company employees: ${e.message}`)
+  }
+}
@@ -1,7 +1,21 @@
 // Functional scraper APIs
 
-export type { PersonScraperOptions } from './person'
-export { scrapePerson } from './person'
+export type { CommunityScraperOptions } from './community'
+export { scrapeGroup, scrapeNewsletter } from './community'
+export type { CompanyEmployeesOptions, CompanyScraperOptions } from './company'
+export { scrapeCompany, scrapeCompanyEmployees } from './company'
+export type { JobScraperOptions, JobSearchOptions } from './job'
+export { buildJobSearchUrl, JobSearchOptionsSchema, scrapeJob, searchJobs } from './job'
+export type { ConversationsOptions, MessageThreadOptions } from './messaging'
+export { MESSAGING_URL, scrapeConversations, scrapeMessageThread } from './messaging'
+export type { MyConnectionsOptions, MyConnectionsResult } from './network'
+export { MY_CONNECTIONS_URL, scrapeMyConnections } from './network'
+export type { PeopleSearchOptions, PersonScraperOptions } from './person'
+export { buildPeopleSearchUrl, PeopleSearchOptionsSchema, scrapePerson, searchPeople } from './person'
+export type { PostEngagementOptions } from './post'
+export { scrapePostEngagement } from './post'
+export type { SchoolScraperOptions } from './school'
+export { scrapeSchool } from './school'
 
 // Utility functions for advanced usage
 export * from './utils'
@@ -0,0 +1,56 @@
+import type { Page } from 'playwright'
+import type { ProgressCallback } from '../../callbacks'
+import { ScrapingError } from '../../exceptions'
+import type { JobPosting } from '../../models'
+import { createJobPosting } from '../../models'
+import { log } from '../../utils/logger'
+import { ensureLoggedIn, navigateAndWait, waitAndFocus } from '../utils'
+import { getJobDescription, getJobTopCard } from './posting'
+import { parseJobId } from './utils'
+
+export interface JobScraperOptions {
+  callback?: ProgressCallback
+}
+
+/**
+ * Scrapes a LinkedIn job posting ("/jobs/view/<id>/").
+ */
+export async function scrapeJob(page: Page, jobUrl: string, options?: JobScraperOptions): Promise<JobPosting> {
+  const callback = options?.callback
+
+  await callback?.onStart('job', jobUrl)
+
+  try {
+    await navigateAndWait(page, jobUrl, callback)
+    log.debug('Navigated to job posting')
+
+    await ensureLoggedIn(page)
+
+    await page.waitForSelector('main', { timeout: 10000 })
+    await waitAndFocus(page, 1)
+
+    const topCard = await getJobTopCard(page)
+    log.debug(`Got job title: ${topCard?.title}`)
+
+    const description = await getJobDescription(page)
+    if (description) log.debug('Got job description')
+
+    const job = createJobPosting({
+      linkedinUrl: jobUrl,
+      jobId: parseJobId(jobUrl) ?? undefined,
+      ...topCard,
+      description: description ?? undefined,
+    } as JobPosting)
+
+    log.debug('Scraping complete')
+    await callback?.onComplete('job', job)
+
+    return job
+  } catch (e: any) {
+    await callback?.onError(`Failed to scrape job posting: ${e.message}`, e)
+    throw new ScrapingError(`Failed to scrape job posting: ${e.message}`)
+  }
+}
+
+export type { JobSearchOptions } from './search'
+export { buildJobSearchUrl, JobSearchOptionsSchema, searchJobs } from './search'
@@ -0,0 +1,51 @@
+import type { Page } from 'playwright'
+import { buildHealthReport } from '../../extraction/health'
+import { JobDescriptionPageExtractor, JobPostingPageExtractor } from '../../extraction/page-extractors'
+import { JobDescriptionParser, JobPostingParser, type JobTopCardResult } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import { log } from '../../utils/logger'
+
+export async function getJobTopCard(page: Page): Promise<JobTopCardResult | null> {
+  try {
+    const pipeline = new ExtractionPipeline<JobTopCardResult>({
+      pageExtractor: new JobPostingPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new JobPostingParser(),
+      confidenceThreshold: 0.15,
+      captureHtmlOnFailure: true,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl: page.url() })
+    const report = buildHealthReport('job-posting', result)
+    if (report.status === 'healthy') log.info(report.message)
+    else log.warning(report.message)
+
+    return result.items[0] ?? null
+  } catch (e) {
+    log.warning(`Error getting job top card: ${e}`)
+    return null
+  }
+}
+
+export async function getJobDescription(page: Page): Promise<string | null> {
+  try {
+    // Raw text keeps bullet lists and paragraph breaks that the span-based extractors drop.
+    const pipeline = new ExtractionPipeline<string>({
+      pageExtractor: new JobDescriptionPageExtractor(),
+      textExtractors: [new RawTextExtractor()],
+      parser: new JobDescriptionParser(),
+      confidenceThreshold: 0.1,
+      captureHtmlOnFailure: true,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl: page.url() })
+    const report = buildHealthReport('job-description', result, { healthyConfidence: 0.3, degradedConfidence: 0.15 })
+    if (report.status !== 'healthy') log.warning(report.message)
+
+    return result.items[0] ?? null
+  } catch (e) {
+    log.debug(`Error getting job description: ${e}`)
+    return null
+  }
+}
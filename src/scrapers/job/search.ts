@@ -0,0 +1,128 @@
+import type { Page } from 'playwright'
+import { z } from 'zod'
+import type { ProgressCallback } from '../../callbacks'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { RateLimitError, ScrapingError } from '../../exceptions'
+import { JobSearchPageExtractor } from '../../extraction/page-extractors'
+import { JobStubParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { JobStub } from '../../models'
+import { collectSearchPages } from '../pagination'
+import { ensureLoggedIn, navigateAndWait } from '../utils'
+
+const DATE_POSTED_PARAMS = {
+  any: null,
+  'past-24h': 'r86400',
+  'past-week': 'r604800',
+  'past-month': 'r2592000',
+} as const
+
+const EXPERIENCE_LEVEL_PARAMS = {
+  internship: '1',
+  entry: '2',
+  associate: '3',
+  'mid-senior': '4',
+  director: '5',
+  executive: '6',
+} as const
+
+const WORKPLACE_TYPE_PARAMS = {
+  'on-site': '1',
+  remote: '2',
+  hybrid: '3',
+} as const
+
+export const JobSearchOptionsSchema = z.object({
+  keywords: z.string().optional(),
+  location: z.string().optional(),
+  /** LinkedIn geo ID; more precise than the free-text location */
+  geoId: z.string().optional(),
+  datePosted: z.enum(['any', 'past-24h', 'past-week', 'past-month']).optional().default('any'),
+  experienceLevels: z
+    .array(z.enum(['internship', 'entry', 'associate', 'mid-senior', 'director', 'executive']))
+    .optional()
+    .default([]),
+  workplaceTypes: z
+    .array(z.enum(['on-site', 'remote', 'hybrid']))
+    .optional()
+    .default([]),
+  maxPages: z.number().int().positive().optional().default(5),
+  maxResults: z.number().int().positive().optional(),
+})
+
+export type JobSearchOptions = z.input<typeof JobSearchOptionsSchema>
+
+/**
+ * Builds the job search URL for a zero-based result page.
+ */
+export function buildJobSearchUrl(options: JobSearchOptions, pageIndex: number = 0): string {
+  const parsed = JobSearchOptionsSchema.parse(options)
+  const params = new URLSearchParams()
+
+  if (parsed.keywords) params.set('keywords', parsed.keywords)
+  if (parsed.location) params.set('location', parsed.location)
+  if (parsed.geoId) params.set('geoId', parsed.geoId)
+
+  const datePosted = DATE_POSTED_PARAMS[parsed.datePosted]
+  if (datePosted) params.set('f_TPR', datePosted)
+
+  if (parsed.experienceLevels.length > 0)
+    params.set('f_E', parsed.experienceLevels.map((level) => EXPERIENCE_LEVEL_PARAMS[level]).join(','))
+
+  if (parsed.workplaceTypes.length > 0)
+    params.set('f_WT', parsed.workplaceTypes.map((type) => WORKPLACE_TYPE_PARAMS[type]).join(','))
+
+  if (pageIndex > 0) params.set('start', String(pageIndex * SCRAPING_CONSTANTS.JOB_SEARCH_PAGE_SIZE))
+
+  return `https://www.linkedin.com/jobs/search/?${params.toString()}`
+}
+
+/**
+ * Runs a LinkedIn job search and collects result cards across pages.
+ * Returned stubs can be passed to `scrapeJob`.
+ */
+export async function searchJobs(
+  page: Page,
+  options: JobSearchOptions & { callback?: ProgressCallback },
+): Promise<JobStub[]> {
+  const callback = options.callback
+  const parsed = JobSearchOptionsSchema.parse(options)
+  const firstUrl = buildJobSearchUrl(parsed)
+
+  await callback?.onStart('job-search', firstUrl)
+
+  try {
+    await navigateAndWait(page, firstUrl, callback)
+    await ensureLoggedIn(page)
+
+    const pipeline = new ExtractionPipeline<JobStub>({
+      pageExtractor: new JobSearchPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new JobStubParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (job) => job.jobId,
+    })
+
+    const results = await collectSearchPages(page, {
+      pipeline,
+      pageUrl: (pageIndex) => buildJobSearchUrl(parsed, pageIndex),
+      itemKey: (job) => job.jobId,
+      maxPages: parsed.maxPages,
+      pageSize: SCRAPING_CONSTANTS.JOB_SEARCH_PAGE_SIZE,
+      maxResults: parsed.maxResults,
+      searchName: 'job search',
+      itemName: 'jobs',
+      callback,
+    })
+
+    await callback?.onComplete('job-search', results)
+
+    return results
+  } catch (e: any) {
+    await callback?.onError(`Failed to search jobs: ${e.message}`, e)
+    if (e instanceof RateLimitError) throw e
+    throw new ScrapingError(`Failed to search jobs: ${e.message}`)
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Extracts the numeric job ID from a job URL
+ * ("/jobs/view/123/", "/jobs/view/title-at-company-123/" or "?currentJobId=123").
+ */
+export function parseJobId(url: string): string | null {
+  const viewMatch = url.match(/\/jobs\/view\/(?:[^/?#]*-)?(\d+)/)
+  if (viewMatch?.[1]) return viewMatch[1]
+
+  const paramMatch = url.match(/[?&]currentJobId=(\d+)/)
+  return paramMatch?.[1] ?? null
+}
+
+/**
+ * Builds the canonical job URL for a job ID.
+ */
+export function buildJobUrl(jobId: string): string {
+  return `https://www.linkedin.com/jobs/view/${jobId}/`
+}
+
+export function mapWorkplaceType(text: string): string | null {
+  const lower = text.toLowerCase()
+  if (lower.includes('on-site') || lower.includes('onsite')) return 'On-site'
+  if (lower.includes('hybrid')) return 'Hybrid'
+  if (lower.includes('remote')) return 'Remote'
+  return null
+}
+
+export function mapEmploymentType(text: string): string | null {
+  const lower = text.toLowerCase()
+  if (lower.includes('full-time') || lower.includes('full time')) return 'Full-time'
+  if (lower.includes('part-time') || lower.includes('part time')) return 'Part-time'
+  if (lower.includes('contract')) return 'Contract'
+  if (lower.includes('temporary')) return 'Temporary'
+  if (lower.includes('internship')) return 'Internship'
+  if (lower.includes('volunteer')) return 'Volunteer'
+  return null
+}
+
+/**
+ * Determines if a text fragment looks like a pay range ("$150K/yr - $200K/yr", "€40/hr").
+ */
+export function isSalaryLike(text: string): boolean {
+  return /[$€£¥₹]\s?\d/.test(text) || /\d\s?(?:K|k)?\s?\/\s?(?:yr|hr|mo)\b/.test(text)
+}
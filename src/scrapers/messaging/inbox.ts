@@ -0,0 +1,62 @@
+import type { Page } from 'playwright'
+import { ConversationListPageExtractor, MessageThreadPageExtractor } from '../../extraction/page-extractors'
+import { ConversationParser, MessageParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { Conversation, Message } from '../../models'
+import { log } from '../../utils/logger'
+
+export async function getConversations(
+  page: Page,
+  inboxUrl: string,
+  options: { maxItems?: number } = {},
+): Promise<Conversation[]> {
+  try {
+    const pipeline = new ExtractionPipeline<Conversation>({
+      pageExtractor: new ConversationListPageExtractor(options),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new ConversationParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (conversation) => conversation.threadUrl ?? conversation.participants.join('|'),
+    })
+
+    const result = await pipeline.extract({ page, baseUrl: inboxUrl })
+    log.info(
+      `Got ${result.items.length} conversations (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    return result.items
+  } catch (e) {
+    log.warning(`Error getting conversations: ${e}`)
+    return []
+  }
+}
+
+export async function getThreadMessages(
+  page: Page,
+  threadUrl: string,
+  options: { maxItems?: number } = {},
+): Promise<Message[]> {
+  try {
+    // Messages keep their line breaks, which the structured extractors would merge or drop.
+    const pipeline = new ExtractionPipeline<Message>({
+      pageExtractor: new MessageThreadPageExtractor(options),
+      textExtractors: [new RawTextExtractor()],
+      parser: new MessageParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (message) => message.urn ?? `${message.sender}|${message.timestamp}|${message.text}`,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl: threadUrl })
+    log.info(
+      `Got ${result.items.length} messages (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    return result.items
+  } catch (e) {
+    log.warning(`Error getting messages: ${e}`)
+    return []
+  }
+}
@@ -0,0 +1,90 @@
+import type { Page } from 'playwright'
+import type { ProgressCallback } from '../../callbacks'
+import { RateLimitError, ScrapingError } from '../../exceptions'
+import type { Conversation, MessageThread } from '../../models'
+import { createMessageThread } from '../../models'
+import { log } from '../../utils/logger'
+import { ensureLoggedIn, navigateAndWait, waitAndFocus } from '../utils'
+import { getConversations, getThreadMessages } from './inbox'
+
+export const MESSAGING_URL = 'https://www.linkedin.com/messaging/'
+
+const THREAD_PARTICIPANTS_SELECTOR =
+  '.msg-entity-lockup__entity-title, .msg-thread__link-to-profile, h2.msg-overlay-bubble-header__title'
+
+export interface ConversationsOptions {
+  callback?: ProgressCallback
+  /** Maximum number of conversations to return (default 50) */
+  maxConversations?: number
+}
+
+export interface MessageThreadOptions {
+  callback?: ProgressCallback
+  /** Maximum number of most recent messages to return; older messages are paged in as needed (default 100) */
+  maxMessages?: number
+}
+
+/**
+ * Lists the logged-in account's conversations, most recent first.
+ * Returned thread URLs can be passed to `scrapeMessageThread`.
+ */
+export async function scrapeConversations(page: Page, options?: ConversationsOptions): Promise<Conversation[]> {
+  const callback = options?.callback
+
+  await callback?.onStart('conversations', MESSAGING_URL)
+
+  try {
+    await navigateAndWait(page, MESSAGING_URL, callback)
+    await ensureLoggedIn(page)
+
+    const conversations = await getConversations(page, MESSAGING_URL, { maxItems: options?.maxConversations })
+
+    await callback?.onComplete('conversations', conversations)
+    return conversations
+  } catch (e: any) {
+    await callback?.onError(`Failed to scrape conversations: ${e.message}`, e)
+    if (e instanceof RateLimitError) throw e
+    throw new ScrapingError(`Failed to scrape conversations: ${e.message}`)
+  }
+}
+
+/**
+ * Scrapes the messages of a single conversation thread in chronological order.
+ */
+export async function scrapeMessageThread(
+  page: Page,
+  threadUrl: string,
+  options?: MessageThreadOptions,
+): Promise<MessageThread> {
+  const callback = options?.callback
+
+  await callback?.onStart('message-thread', threadUrl)
+
+  try {
+    await navigateAndWait(page, threadUrl, callback)
+    log.debug('Navigated to thread')
+
+    await ensureLoggedIn(page)
+
+    await page.waitForSelector('main', { timeout: 10000 })
+    await waitAndFocus(page, 1)
+
+    const participants = (await page.locator(THREAD_PARTICIPANTS_SELECTOR).allTextContents())
+      .map((text) => text.replace(/\s+/g, ' ').trim())
+      .filter((text, index, all) => text && all.indexOf(text) === index)
+
+    const messages = await getThreadMessages(page, threadUrl, { maxItems: options?.maxMessages })
+    log.debug(`Got ${messages.length} messages`)
+
+    const thread = createMessageThread({ threadUrl, participants, messages })
+
+    log.debug('Scraping complete')
+    await callback?.onComplete('message-thread', thread)
+
+    return thread
+  } catch (e: any) {
+    await callback?.onError(`Failed to scrape message thread: ${e.message}`, e)
+    if (e instanceof RateLimitError) throw e
+    throw new ScrapingError(`Failed to scrape message thread: ${e.message}`)
+  }
+}
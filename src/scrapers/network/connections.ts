@@ -0,0 +1,130 @@
+import type { Page } from 'playwright'
+import type { ProgressCallback } from '../../callbacks'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { RateLimitError, ScrapingError } from '../../exceptions'
+import { MyConnectionsPageExtractor } from '../../extraction/page-extractors'
+import { ConnectionParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { Connection } from '../../models'
+import { log } from '../../utils/logger'
+import { checkRateLimit, ensureLoggedIn, navigateAndWait, parseCount, waitAndFocus } from '../utils'
+
+export const MY_CONNECTIONS_URL = 'https://www.linkedin.com/mynetwork/invite-connect/connections/'
+
+const CONNECTION_COUNT_SELECTOR = 'main h1, main header h2, .mn-connections__header'
+
+export interface MyConnectionsOptions {
+  callback?: ProgressCallback
+  /** Number of connections to skip, e.g. to resume an interrupted export (default 0) */
+  offset?: number
+  /** Maximum number of connections to return (default 500) */
+  maxResults?: number
+  /** Connections parsed per scroll batch and streamed through `callback.onData` (default 40) */
+  batchSize?: number
+}
+
+export interface MyConnectionsResult {
+  connections: Connection[]
+  /** Offset to pass as `offset` to continue the export */
+  nextOffset: number
+  /** True when the end of the connections list was reached */
+  complete: boolean
+  /** Total connection count shown on the page, when available */
+  totalCount?: number
+}
+
+/**
+ * Exports the logged-in account's own connections, newest first.
+ * The list is loaded by infinite scroll; each parsed batch is passed to `callback.onData`
+ * together with its offset so an interrupted export can resume with `offset`.
+ * When the list stops loading before the total shown on the page, `callback.onWarning` is called
+ * and the result is marked incomplete with the offset to resume from.
+ */
+export async function scrapeMyConnections(page: Page, options?: MyConnectionsOptions): Promise<MyConnectionsResult> {
+  const callback = options?.callback
+  const maxResults = options?.maxResults ?? SCRAPING_CONSTANTS.MY_CONNECTIONS_DEFAULT_LIMIT
+  const batchSize = options?.batchSize ?? SCRAPING_CONSTANTS.MY_CONNECTIONS_BATCH_SIZE
+  let offset = options?.offset ?? 0
+
+  await callback?.onStart('my-connections', MY_CONNECTIONS_URL)
+
+  try {
+    await navigateAndWait(page, MY_CONNECTIONS_URL, callback)
+    await ensureLoggedIn(page)
+    await page.waitForSelector('main', { timeout: 10000 })
+    await waitAndFocus(page, 1)
+
+    const totalCount = await readConnectionCount(page)
+    const connections: Connection[] = []
+    const seen = new Set<string>()
+    let reachedEnd = false
+
+    while (connections.length < maxResults) {
+      const limit = Math.min(batchSize, maxResults - connections.length)
+      const pipeline = new ExtractionPipeline<Connection>({
+        pageExtractor: new MyConnectionsPageExtractor({ offset, limit }),
+        textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+        parser: new ConnectionParser(),
+        confidenceThreshold: 0.25,
+        captureHtmlOnFailure: true,
+        deduplicateKey: (connection) => connection.linkedinUrl,
+      })
+
+      const result = await pipeline.extract({ page, baseUrl: MY_CONNECTIONS_URL })
+      const batch = result.items.filter((connection) => !seen.has(connection.linkedinUrl))
+      for (const connection of batch) seen.add(connection.linkedinUrl)
+      connections.push(...batch)
+
+      log.info(
+        `Got ${batch.length} connections at offset ${offset} (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+      )
+      if (batch.length > 0) await callback?.onData?.('my-connections', { offset, connections: batch })
+
+      // Offsets count cards rather than parsed connections so resuming lines up with the page.
+      offset += result.diagnostics.itemsFound
+      await callback?.onInfo(`Loaded ${connections.length} connections (next offset: ${offset})`)
+
+      if (result.diagnostics.itemsFound < limit) {
+        // A short batch after several stale scroll rounds is the end of the list,
+        // unless the page's total shows there are more connections to load.
+        if (totalCount !== undefined && offset < totalCount) {
+          await callback?.onWarning(
+            `Connections list stopped loading at ${offset} of ${totalCount}; the export may be incomplete. Resume with offset ${offset}.`,
+          )
+        } else {
+          reachedEnd = true
+        }
+        break
+      }
+
+      await checkRateLimit(page)
+    }
+
+    const complete = reachedEnd || (totalCount !== undefined && offset >= totalCount)
+
+    const results: MyConnectionsResult = {
+      connections: connections.slice(0, maxResults),
+      nextOffset: offset,
+      complete,
+      totalCount,
+    }
+    await callback?.onComplete('my-connections', results)
+
+    return results
+  } catch (e: any) {
+    await callback?.onError(`Failed to scrape connections: ${e.message}`, e)
+    if (e instanceof RateLimitError) throw e
+    throw new ScrapingError(`Failed to scrape connections: ${e.message}`)
+  }
+}
+
+/** Reads the "1,234 connections" header of the connections page */
+async function readConnectionCount(page: Page): Promise<number | undefined> {
+  const headers = await page
+    .locator(CONNECTION_COUNT_SELECTOR)
+    .allTextContents()
+    .catch(() => [])
+  const header = headers.find((text) => /\d[\d,]*\s+connections?\b/i.test(text))
+  return header ? parseCount(header) : undefined
+}
@@ -0,0 +1,2 @@
+export type { MyConnectionsOptions, MyConnectionsResult } from './connections'
+export { MY_CONNECTIONS_URL, scrapeMyConnections } from './connections'
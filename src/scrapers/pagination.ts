@@ -0,0 +1,53 @@
+import type { Page } from 'playwright'
+import type { ProgressCallback } from '../callbacks'
+import type { ExtractionPipeline } from '../extraction/pipeline'
+import { log } from '../utils/logger'
+import { checkRateLimit, waitAndFocus } from './utils'
+
+export interface SearchPaginationOptions<T> {
+  pipeline: ExtractionPipeline<T>
+  /** Builds the URL of a zero-based result page */
+  pageUrl: (pageIndex: number) => string
+  /** Identity used to drop results repeated across pages */
+  itemKey: (item: T) => string
+  maxPages: number
+  /** Number of results on a full page; a shorter page is the last one */
+  pageSize: number
+  maxResults?: number
+  /** Names used in progress messages, e.g. "job search" and "jobs" */
+  searchName: string
+  itemName: string
+  callback?: ProgressCallback
+}
+
+/**
+ * Walks search result pages and collects their items, deduplicated across pages.
+ * Stops after `maxPages`, once `maxResults` are collected, or on a page that adds
+ * nothing new or is shorter than a full page. Rate limits are checked between pages.
+ */
+export async function collectSearchPages<T>(page: Page, options: SearchPaginationOptions<T>): Promise<T[]> {
+  const items: T[] = []
+  const seen = new Set<string>()
+
+  for (let pageIndex = 0; pageIndex < options.maxPages; pageIndex++) {
+    await options.callback?.onInfo(`Loading ${options.searchName} page ${pageIndex + 1}`)
+
+    const result = await options.pipeline.extract({ page, baseUrl: options.pageUrl(pageIndex) })
+
+    const fresh = result.items.filter((item) => !seen.has(options.itemKey(item)))
+    for (const item of fresh) seen.add(options.itemKey(item))
+    items.push(...fresh)
+
+    log.info(
+      `Got ${fresh.length} ${options.itemName} on page ${pageIndex + 1} (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    if (options.maxResults && items.length >= options.maxResults) break
+    if (fresh.length === 0 || result.diagnostics.itemsFound < options.pageSize) break
+
+    await checkRateLimit(page)
+    await waitAndFocus(page, 1)
+  }
+
+  return options.maxResults ? items.slice(0, options.maxResults) : items
+}
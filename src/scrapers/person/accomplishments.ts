@@ -3,25 +3,35 @@ import { AccomplishmentPageExtractor } from '../../extraction/page-extractors'
 import { AccomplishmentParser } from '../../extraction/parsers'
 import { ExtractionPipeline } from '../../extraction/pipeline'
 import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
-import type { Accomplishment } from '../../models'
+import type { Accomplishment, AccomplishmentCategory } from '../../models'
 import { log } from '../../utils/logger'
 import { deduplicateItems } from './common-patterns'
 
-export async function getAccomplishments(page: Page, baseUrl: string): Promise<Accomplishment[]> {
+/** `details/<path>/` page for each accomplishment category */
+const ACCOMPLISHMENT_PATHS: Record<AccomplishmentCategory, string> = {
+  certification: 'certifications',
+  honor: 'honors',
+  publication: 'publications',
+  patent: 'patents',
+  course: 'courses',
+  project: 'projects',
+  language: 'languages',
+  organization: 'organizations',
+  'test-score': 'test-scores',
+}
+
+export const DEFAULT_ACCOMPLISHMENT_CATEGORIES = Object.keys(ACCOMPLISHMENT_PATHS) as AccomplishmentCategory[]
+
+export async function getAccomplishments(
+  page: Page,
+  baseUrl: string,
+  categories: AccomplishmentCategory[] = DEFAULT_ACCOMPLISHMENT_CATEGORIES,
+): Promise<Accomplishment[]> {
   const accomplishments: Accomplishment[] = []
 
-  const accomplishmentSections: Array<[string, string]> = [
-    ['certifications', 'certification'],
-    ['honors', 'honor'],
-    ['publications', 'publication'],
-    ['patents', 'patent'],
-    ['courses', 'course'],
-    ['projects', 'project'],
-    ['languages', 'language'],
-    ['organizations', 'organization'],
-  ]
-
-  for (const [urlPath, category] of accomplishmentSections) {
+  for (const category of categories) {
+    const urlPath = ACCOMPLISHMENT_PATHS[category]
+
     try {
       const pipeline = new ExtractionPipeline<Accomplishment>({
         pageExtractor: new AccomplishmentPageExtractor({
@@ -0,0 +1,30 @@
+import type { Page } from 'playwright'
+import { FeaturedPageExtractor } from '../../extraction/page-extractors'
+import { FeaturedParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { FeaturedItem } from '../../models/person'
+import { log } from '../../utils/logger'
+
+export async function getFeatured(page: Page, baseUrl: string): Promise<FeaturedItem[]> {
+  try {
+    const pipeline = new ExtractionPipeline<FeaturedItem>({
+      pageExtractor: new FeaturedPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new FeaturedParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (item) => `${item.kind}|${item.url || ''}|${item.title || ''}`,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl })
+    log.info(
+      `Got ${result.items.length} featured items (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    return result.items
+  } catch (e) {
+    log.warning(`Error getting featured items: ${e}`)
+    return []
+  }
+}
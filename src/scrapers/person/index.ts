@@ -1,7 +1,7 @@
 import type { Page } from 'playwright'
 import type { ProgressCallback } from '../../callbacks'
 import { ScrapingError } from '../../exceptions'
-import type { PersonData } from '../../models'
+import type { AccomplishmentCategory, PersonData } from '../../models'
 import { createPerson } from '../../models'
 import { log } from '../../utils/logger'
 import { ensureLoggedIn, navigateAndWait, scrollPageToBottom, scrollPageToHalf, waitAndFocus } from '../utils'
@@ -9,21 +9,46 @@ import { getAccomplishments } from './accomplishments'
 import { getContactInfo } from './contact-info'
 import { getEducations } from './educations'
 import { getExperiences } from './experiences'
+import { getFeatured } from './featured'
 import { getInterests } from './interests'
+import { getMutualConnections } from './mutual-connections'
 import { getPatents } from './patents'
-import { checkOpenToWork, getAbout, getTopCardProfileInfo } from './profile'
+import { getPosts } from './posts'
+import { getAbout, getOpenToWork, getTopCardProfileInfo } from './profile'
+import { getRecommendations } from './recommendations'
+import { getRelatedProfiles } from './related-profiles'
+import { getSkills } from './skills'
+import { getVolunteering } from './volunteering'
 
 export interface PersonScraperOptions {
   callback?: ProgressCallback
   sections?: {
     about?: boolean
+    featured?: boolean
     experiences?: boolean
     educations?: boolean
+    volunteering?: boolean
     patents?: boolean
+    skills?: boolean
+    recommendations?: boolean
     interests?: boolean
     accomplishments?: boolean
     contacts?: boolean
+    /** Opt-in: recent activity feed posts */
+    posts?: boolean
+    /** Opt-in: "People also viewed" / "People you may know" sidebar profiles */
+    relatedProfiles?: boolean
+    /** Opt-in: mutual connections listed behind the top card's "X mutual connections" link */
+    mutualConnections?: boolean
   }
+  /** Accomplishment categories to collect when the accomplishments section is enabled (default: all) */
+  accomplishmentCategories?: AccomplishmentCategory[]
+  /** Visit group and newsletter interests to add description, member/subscriber count and owner */
+  enrichInterests?: boolean
+  /** Maximum number of posts to collect when the posts section is enabled (default 20) */
+  maxPosts?: number
+  /** Maximum number of mutual connections to collect when that section is enabled (default 50) */
+  maxMutualConnections?: number
 }
 
 /**
@@ -37,12 +62,19 @@ export async function scrapePerson(
   const callback = options?.callback
   const sections = options?.sections ?? {
     about: true,
+    featured: true,
     experiences: true,
     educations: true,
+    volunteering: true,
     patents: true,
+    skills: true,
+    recommendations: true,
     interests: true,
     accomplishments: true,
     contacts: true,
+    posts: false,
+    relatedProfiles: false,
+    mutualConnections: false,
   }
 
   await callback?.onStart('person', linkedinUrl)
@@ -56,10 +88,14 @@ export async function scrapePerson(
     await page.waitForSelector('main', { timeout: 10000 })
     await waitAndFocus(page, 1)
 
-    const { name, location, headline, origin } = await getTopCardProfileInfo(page)
+    const { name, location, headline, origin, ...topCardDetails } = await getTopCardProfileInfo(page)
     log.debug(`Got name: ${name}`)
 
-    const openToWork = await checkOpenToWork(page)
+    const { openToWork, openToWorkDetails, providingServices } = await getOpenToWork(page)
+
+    // The sidebar is only rendered on the main profile, so read it before navigating to detail pages.
+    const relatedProfiles = sections.relatedProfiles ? await getRelatedProfiles(page, linkedinUrl) : []
+    if (sections.relatedProfiles) log.debug(`Got ${relatedProfiles.length} related profiles`)
 
     const about = sections.about ? await getAbout(page) : null
     if (sections.about) log.debug('Got about section')
@@ -69,38 +105,74 @@ export async function scrapePerson(
       await scrollPageToBottom(page, 0.5, 3)
     }
 
+    // Featured reads from details/featured/, so it runs after the main-profile scroll.
+    const featured = sections.featured ? await getFeatured(page, linkedinUrl) : []
+    if (sections.featured) log.debug(`Got ${featured.length} featured items`)
+
     const experiences = sections.experiences ? await getExperiences(page, linkedinUrl) : []
     if (sections.experiences) log.debug(`Got ${experiences.length} experiences`)
 
     const educations = sections.educations ? await getEducations(page, linkedinUrl) : []
     if (sections.educations) log.debug(`Got ${educations.length} educations`)
 
+    const volunteering = sections.volunteering ? await getVolunteering(page, linkedinUrl) : []
+    if (sections.volunteering) log.debug(`Got ${volunteering.length} volunteering experiences`)
+
     const patents = sections.patents ? await getPatents(page, linkedinUrl) : []
     if (sections.patents) log.debug(`Got ${patents.length} patents`)
 
-    const interests = sections.interests ? await getInterests(page, linkedinUrl) : []
+    const skills = sections.skills ? await getSkills(page, linkedinUrl) : []
+    if (sections.skills) log.debug(`Got ${skills.length} skills`)
+
+    const recommendations = sections.recommendations ? await getRecommendations(page, linkedinUrl) : []
+    if (sections.recommendations) log.debug(`Got ${recommendations.length} recommendations`)
+
+    const interests = sections.interests
+      ? await getInterests(page, linkedinUrl, { enrich: options?.enrichInterests })
+      : []
     if (sections.interests) log.debug(`Got ${interests.length} interests`)
 
-    const accomplishments = sections.accomplishments ? await getAccomplishments(page, linkedinUrl) : []
+    const accomplishments = sections.accomplishments
+      ? await getAccomplishments(page, linkedinUrl, options?.accomplishmentCategories)
+      : []
     if (sections.accomplishments) log.debug(`Got ${accomplishments.length} accomplishments`)
 
     const contacts = sections.contacts ? await getContactInfo(page, linkedinUrl) : []
     if (sections.contacts) log.debug(`Got ${contacts.length} contacts`)
 
+    const posts = sections.posts ? await getPosts(page, linkedinUrl, { maxPosts: options?.maxPosts }) : []
+    if (sections.posts) log.debug(`Got ${posts.length} posts`)
+
+    const { mutualConnectionCount, mutualConnections } = sections.mutualConnections
+      ? await getMutualConnections(page, linkedinUrl, { maxResults: options?.maxMutualConnections })
+      : { mutualConnectionCount: undefined, mutualConnections: [] }
+    if (sections.mutualConnections) log.debug(`Got ${mutualConnections.length} mutual connections`)
+
     const person = createPerson({
       linkedinUrl,
       name,
+      ...topCardDetails,
       location: origin ?? location ?? undefined,
       headline: headline ?? undefined,
       origin: origin ?? undefined,
       about: about ?? undefined,
+      featured,
       openToWork,
+      openToWorkDetails,
+      providingServices,
       experiences,
       educations,
+      volunteering,
       patents,
+      skills,
+      recommendations,
       interests,
       accomplishments,
       contacts,
+      posts,
+      relatedProfiles,
+      mutualConnectionCount,
+      mutualConnections,
     } as PersonData)
 
     log.debug('Scraping complete')
@@ -112,3 +184,6 @@ export async function scrapePerson(
     throw new ScrapingError(`Failed to scrape person profile: ${e.message}`)
   }
 }
+
+export type { PeopleSearchOptions } from './search'
+export { buildPeopleSearchUrl, PeopleSearchOptionsSchema, searchPeople } from './search'
@@ -1,12 +1,19 @@
 import type { Page } from 'playwright'
+import { RateLimitError } from '../../exceptions'
 import { InterestPageExtractor } from '../../extraction/page-extractors'
 import { InterestParser } from '../../extraction/parsers'
 import { ExtractionPipeline } from '../../extraction/pipeline'
 import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
 import type { Interest } from '../../models'
 import { log } from '../../utils/logger'
+import { getGroupAbout, getNewsletterAbout } from '../community/about'
+import { checkRateLimit, waitAndFocus } from '../utils'
 
-export async function getInterests(page: Page, baseUrl: string): Promise<Interest[]> {
+export async function getInterests(
+  page: Page,
+  baseUrl: string,
+  options: { enrich?: boolean } = {},
+): Promise<Interest[]> {
   try {
     const pipeline = new ExtractionPipeline<Interest>({
       pageExtractor: new InterestPageExtractor(),
@@ -22,9 +29,52 @@ export async function getInterests(page: Page, baseUrl: string): Promise<Interes
       `Got ${result.items.length} interests (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
     )
 
-    return result.items
+    if (!options.enrich) return result.items
+
+    const enriched: Interest[] = []
+    for (const interest of result.items) {
+      try {
+        enriched.push(await enrichInterest(page, interest))
+      } catch (e) {
+        if (e instanceof RateLimitError) throw e
+        log.warning(`Error enriching interest ${interest.name}: ${e}`)
+        enriched.push(interest)
+      }
+    }
+    return enriched
   } catch (e) {
+    if (e instanceof RateLimitError) throw e
     log.warning(`Error getting interests: ${e}`)
     return []
   }
 }
+
+/**
+ * Visits the page of a group or newsletter interest and copies its details onto the entry.
+ * Other categories, and entries whose page cannot be read, are returned unchanged.
+ */
+async function enrichInterest(page: Page, interest: Interest): Promise<Interest> {
+  if (!interest.linkedinUrl || (interest.category !== 'group' && interest.category !== 'newsletter')) return interest
+
+  const url = new URL(interest.linkedinUrl, 'https://www.linkedin.com').toString()
+  await checkRateLimit(page)
+
+  if (interest.category === 'group') {
+    const group = await getGroupAbout(page, url)
+    await waitAndFocus(page, 1)
+    if (!group) return interest
+
+    return { ...interest, description: group.description, memberCount: group.memberCount, owner: group.owner }
+  }
+
+  const newsletter = await getNewsletterAbout(page, url)
+  await waitAndFocus(page, 1)
+  if (!newsletter) return interest
+
+  return {
+    ...interest,
+    description: newsletter.description,
+    subscriberCount: newsletter.subscriberCount,
+    owner: newsletter.owner,
+  }
+}
@@ -0,0 +1,88 @@
+import type { Page } from 'playwright'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { navigateToSection, PeopleSearchPageExtractor } from '../../extraction/page-extractors'
+import { PersonStubParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { PersonStub } from '../../models'
+import { log } from '../../utils/logger'
+import { collectSearchPages } from '../pagination'
+import { parseMutualConnectionCount } from './utils'
+
+const MUTUAL_CONNECTIONS_LINK_SELECTOR =
+  'main a[href*="facetConnectionOf"], main a[href*="/search/results/people/"]:has-text("mutual connection")'
+
+export interface MutualConnectionsInfo {
+  mutualConnectionCount?: number
+  mutualConnections: PersonStub[]
+}
+
+/**
+ * Reads the top card's "X mutual connections" line and follows it to the people search it opens.
+ * Results are capped at `maxResults` (and a fixed page limit) to keep the number of searches low.
+ */
+export async function getMutualConnections(
+  page: Page,
+  baseUrl: string,
+  options: { maxResults?: number } = {},
+): Promise<MutualConnectionsInfo> {
+  const maxResults = options.maxResults ?? SCRAPING_CONSTANTS.MUTUAL_CONNECTIONS_DEFAULT_LIMIT
+  let mutualConnections: PersonStub[] = []
+  let mutualConnectionCount: number | undefined
+
+  try {
+    // Returning to the profile can end on a redirect, so confirm the page before reading its top card.
+    const didReturn = await navigateToSection(page, baseUrl, '')
+    if (!didReturn || !page.url().includes(profilePath(baseUrl))) return { mutualConnections }
+
+    const link = page.locator(MUTUAL_CONNECTIONS_LINK_SELECTOR).first()
+    if ((await link.count()) === 0) return { mutualConnections }
+
+    const lineText = (await link.textContent())?.trim() ?? ''
+    mutualConnectionCount = parseMutualConnectionCount(lineText)
+
+    const href = await link.getAttribute('href')
+    if (!href) return { mutualConnectionCount, mutualConnections }
+
+    const pipeline = new ExtractionPipeline<PersonStub>({
+      pageExtractor: new PeopleSearchPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new PersonStubParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (stub) => stub.linkedinUrl,
+    })
+
+    const maxPages = Math.min(
+      Math.ceil(maxResults / SCRAPING_CONSTANTS.PEOPLE_SEARCH_PAGE_SIZE),
+      SCRAPING_CONSTANTS.MUTUAL_CONNECTIONS_MAX_PAGES,
+    )
+
+    mutualConnections = await collectSearchPages(page, {
+      pipeline,
+      pageUrl: (pageIndex) => buildResultsPageUrl(href, pageIndex + 1),
+      itemKey: (stub) => stub.linkedinUrl,
+      maxPages,
+      pageSize: SCRAPING_CONSTANTS.PEOPLE_SEARCH_PAGE_SIZE,
+      maxResults,
+      searchName: 'mutual connections',
+      itemName: 'mutual connections',
+    })
+  } catch (e) {
+    log.warning(`Error getting mutual connections: ${e}`)
+  }
+
+  return { mutualConnectionCount, mutualConnections }
+}
+
+/** The `/in/<id>` path of a profile URL */
+function profilePath(profileUrl: string): string {
+  return new URL(profileUrl, 'https://www.linkedin.com').pathname.replace(/\/$/, '')
+}
+
+function buildResultsPageUrl(href: string, pageNumber: number): string {
+  const url = new URL(href, 'https://www.linkedin.com')
+  if (pageNumber > 1) url.searchParams.set('page', String(pageNumber))
+  else url.searchParams.delete('page')
+  return url.toString()
+}
@@ -0,0 +1,30 @@
+import type { Page } from 'playwright'
+import { PostPageExtractor } from '../../extraction/page-extractors'
+import { PostParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { Post } from '../../models'
+import { log } from '../../utils/logger'
+
+export async function getPosts(page: Page, baseUrl: string, options: { maxPosts?: number } = {}): Promise<Post[]> {
+  try {
+    const pipeline = new ExtractionPipeline<Post>({
+      pageExtractor: new PostPageExtractor(options),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new PostParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (post) => post.urn ?? post.text ?? '',
+    })
+
+    const result = await pipeline.extract({ page, baseUrl })
+    log.info(
+      `Got ${result.items.length} posts (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    return result.items
+  } catch (e) {
+    log.warning(`Error getting posts: ${e}`)
+    return []
+  }
+}
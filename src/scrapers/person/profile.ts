@@ -1,17 +1,15 @@
 import type { Page } from 'playwright'
-import { AboutPageExtractor } from '../../extraction/page-extractors'
-import { AboutParser } from '../../extraction/parsers'
+import { AboutPageExtractor, OpenToWorkPageExtractor } from '../../extraction/page-extractors'
+import { AboutParser, OpenToWorkParser } from '../../extraction/parsers'
 import { ExtractionPipeline } from '../../extraction/pipeline'
 import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { OpenToWork } from '../../models/person'
 import { log } from '../../utils/logger'
 import { getAttributeSafe } from '../utils'
-import { extractTopCardFromPage } from './top-card'
+import { extractTopCardFromPage, type TopCardPersonInfo } from './top-card'
 
-export interface TopCardProfileInfo {
-  name: string
+export interface TopCardProfileInfo extends TopCardPersonInfo {
   location: string | null
-  headline: string | null
-  origin: string | null
 }
 
 export async function getTopCardProfileInfo(page: Page): Promise<TopCardProfileInfo> {
@@ -19,10 +17,8 @@ export async function getTopCardProfileInfo(page: Page): Promise<TopCardProfileI
     const topCardInfo = await extractTopCardFromPage(page)
 
     return {
-      name: topCardInfo.name,
+      ...topCardInfo,
       location: topCardInfo.origin,
-      headline: topCardInfo.headline,
-      origin: topCardInfo.origin,
     }
   } catch (e) {
     log.warning(`Error getting name/location: ${e}`)
@@ -39,6 +35,43 @@ export async function checkOpenToWork(page: Page): Promise<boolean> {
   }
 }
 
+export interface OpenToWorkInfo {
+  openToWork: boolean
+  openToWorkDetails?: OpenToWork
+  providingServices?: OpenToWork
+}
+
+/**
+ * Reads the structured "Open to work" and "Providing services" preferences.
+ * `openToWork` also honours the #OPEN_TO_WORK photo frame when no card is readable.
+ */
+export async function getOpenToWork(page: Page): Promise<OpenToWorkInfo> {
+  const hasPhotoFrame = await checkOpenToWork(page)
+
+  try {
+    const pipeline = new ExtractionPipeline<OpenToWork>({
+      pageExtractor: new OpenToWorkPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new OpenToWorkParser(),
+      confidenceThreshold: 0,
+      captureHtmlOnFailure: true,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl: page.url() })
+    const openToWorkDetails = result.items.find((item) => item.kind === 'jobs')
+    const providingServices = result.items.find((item) => item.kind === 'services')
+
+    return {
+      openToWork: hasPhotoFrame || !!openToWorkDetails,
+      openToWorkDetails,
+      providingServices,
+    }
+  } catch (e) {
+    log.debug(`Error getting open to work preferences: ${e}`)
+    return { openToWork: hasPhotoFrame }
+  }
+}
+
 export async function getAbout(page: Page): Promise<string | null> {
   try {
     const pipeline = new ExtractionPipeline<string>({
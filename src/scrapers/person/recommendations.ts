@@ -0,0 +1,30 @@
+import type { Page } from 'playwright'
+import { RecommendationPageExtractor } from '../../extraction/page-extractors'
+import { RecommendationParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { RawTextExtractor } from '../../extraction/text-extractors'
+import type { Recommendation } from '../../models/person'
+import { log } from '../../utils/logger'
+
+export async function getRecommendations(page: Page, baseUrl: string): Promise<Recommendation[]> {
+  try {
+    const pipeline = new ExtractionPipeline<Recommendation>({
+      pageExtractor: new RecommendationPageExtractor(),
+      textExtractors: [new RawTextExtractor()],
+      parser: new RecommendationParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (rec) => `${rec.type}|${rec.authorName}|${rec.date || ''}`,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl })
+    log.info(
+      `Got ${result.items.length} recommendations (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    return result.items
+  } catch (e) {
+    log.warning(`Error getting recommendations: ${e}`)
+    return []
+  }
+}
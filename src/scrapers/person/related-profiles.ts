@@ -0,0 +1,30 @@
+import type { Page } from 'playwright'
+import { RelatedProfilePageExtractor } from '../../extraction/page-extractors'
+import { RelatedProfileParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { RelatedProfile } from '../../models/person'
+import { log } from '../../utils/logger'
+
+export async function getRelatedProfiles(page: Page, baseUrl: string): Promise<RelatedProfile[]> {
+  try {
+    const pipeline = new ExtractionPipeline<RelatedProfile>({
+      pageExtractor: new RelatedProfilePageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new RelatedProfileParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (item) => `${item.source}|${item.linkedinUrl}`,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl })
+    log.info(
+      `Got ${result.items.length} related profiles (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    return result.items
+  } catch (e) {
+    log.warning(`Error getting related profiles: ${e}`)
+    return []
+  }
+}
@@ -0,0 +1,116 @@
+import type { Page } from 'playwright'
+import { z } from 'zod'
+import type { ProgressCallback } from '../../callbacks'
+import { SCRAPING_CONSTANTS } from '../../config/constants'
+import { RateLimitError, ScrapingError } from '../../exceptions'
+import { PeopleSearchPageExtractor } from '../../extraction/page-extractors'
+import { PersonStubParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { PersonStub } from '../../models'
+import { collectSearchPages } from '../pagination'
+import { ensureLoggedIn, navigateAndWait } from '../utils'
+
+const CONNECTION_DEGREE_PARAMS = {
+  '1st': 'F',
+  '2nd': 'S',
+  '3rd+': 'O',
+} as const
+
+export const PeopleSearchOptionsSchema = z.object({
+  keywords: z.string().optional(),
+  title: z.string().optional(),
+  /** LinkedIn company IDs */
+  currentCompanies: z.array(z.string()).optional().default([]),
+  /** LinkedIn company IDs */
+  pastCompanies: z.array(z.string()).optional().default([]),
+  /** LinkedIn geo IDs */
+  locations: z.array(z.string()).optional().default([]),
+  /** LinkedIn school IDs */
+  schools: z.array(z.string()).optional().default([]),
+  connectionDegrees: z
+    .array(z.enum(['1st', '2nd', '3rd+']))
+    .optional()
+    .default([]),
+  maxPages: z.number().int().positive().optional().default(5),
+  maxResults: z.number().int().positive().optional(),
+})
+
+export type PeopleSearchOptions = z.input<typeof PeopleSearchOptionsSchema>
+
+/**
+ * Builds the people search URL for a one-based result page.
+ */
+export function buildPeopleSearchUrl(options: PeopleSearchOptions, pageNumber: number = 1): string {
+  const parsed = PeopleSearchOptionsSchema.parse(options)
+  const params = new URLSearchParams()
+
+  if (parsed.keywords) params.set('keywords', parsed.keywords)
+  if (parsed.title) params.set('titleFreeText', parsed.title)
+
+  const listFilters: Array<[string, string[]]> = [
+    ['currentCompany', parsed.currentCompanies],
+    ['pastCompany', parsed.pastCompanies],
+    ['geoUrn', parsed.locations],
+    ['schoolFilter', parsed.schools],
+    ['network', parsed.connectionDegrees.map((degree) => CONNECTION_DEGREE_PARAMS[degree])],
+  ]
+
+  for (const [name, values] of listFilters) {
+    if (values.length > 0) params.set(name, JSON.stringify(values))
+  }
+
+  if (pageNumber > 1) params.set('page', String(pageNumber))
+
+  return `https://www.linkedin.com/search/results/people/?${params.toString()}`
+}
+
+/**
+ * Runs a LinkedIn people search and collects result cards across pages,
+ * stopping at LinkedIn's 100-page result limit.
+ * Returned stubs can be passed to `scrapePerson`.
+ */
+export async function searchPeople(
+  page: Page,
+  options: PeopleSearchOptions & { callback?: ProgressCallback },
+): Promise<PersonStub[]> {
+  const callback = options.callback
+  const parsed = PeopleSearchOptionsSchema.parse(options)
+  const firstUrl = buildPeopleSearchUrl(parsed)
+
+  await callback?.onStart('people-search', firstUrl)
+
+  try {
+    await navigateAndWait(page, firstUrl, callback)
+    await ensureLoggedIn(page)
+
+    const pipeline = new ExtractionPipeline<PersonStub>({
+      pageExtractor: new PeopleSearchPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new PersonStubParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (stub) => stub.linkedinUrl,
+    })
+
+    const results = await collectSearchPages(page, {
+      pipeline,
+      pageUrl: (pageIndex) => buildPeopleSearchUrl(parsed, pageIndex + 1),
+      itemKey: (stub) => stub.linkedinUrl,
+      maxPages: Math.min(parsed.maxPages, SCRAPING_CONSTANTS.PEOPLE_SEARCH_MAX_PAGES),
+      pageSize: SCRAPING_CONSTANTS.PEOPLE_SEARCH_PAGE_SIZE,
+      maxResults: parsed.maxResults,
+      searchName: 'people search',
+      itemName: 'people',
+      callback,
+    })
+
+    await callback?.onComplete('people-search', results)
+
+    return results
+  } catch (e: any) {
+    await callback?.onError(`Failed to search people: ${e.message}`, e)
+    if (e instanceof RateLimitError) throw e
+    throw new ScrapingError(`Failed to search people: ${e.message}`)
+  }
+}
@@ -0,0 +1,30 @@
+import type { Page } from 'playwright'
+import { SkillPageExtractor } from '../../extraction/page-extractors'
+import { SkillParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { Skill } from '../../models/person'
+import { log } from '../../utils/logger'
+
+export async function getSkills(page: Page, baseUrl: string): Promise<Skill[]> {
+  try {
+    const pipeline = new ExtractionPipeline<Skill>({
+      pageExtractor: new SkillPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new SkillParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (skill) => skill.name.toLowerCase(),
+    })
+
+    const result = await pipeline.extract({ page, baseUrl })
+    log.info(
+      `Got ${result.items.length} skills (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    return result.items
+  } catch (e) {
+    log.warning(`Error getting skills: ${e}`)
+    return []
+  }
+}
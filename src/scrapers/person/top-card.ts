@@ -4,11 +4,7 @@ import { TopCardParser, type TopCardResult } from '../../extraction/parsers'
 import { ExtractionPipeline } from '../../extraction/pipeline'
 import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
 
-export interface TopCardPersonInfo {
-  name: string
-  headline: string | null
-  origin: string | null
-}
+export type TopCardPersonInfo = TopCardResult
 
 export async function extractTopCardFromPage(page: Page): Promise<TopCardPersonInfo> {
   const pipeline = new ExtractionPipeline<TopCardResult>({
@@ -26,6 +22,7 @@ export async function extractTopCardFromPage(page: Page): Promise<TopCardPersonI
   const topCard = result.items[0]
 
   return {
+    ...topCard,
     name: topCard?.name ?? 'Unknown',
     headline: topCard?.headline ?? null,
     origin: topCard?.origin ?? null,
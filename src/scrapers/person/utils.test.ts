@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test'
-import { normalizePlainTextLines, parseDateRange, toPlainText } from './utils'
+import { normalizePlainTextLines, parseDateRange, parseMutualConnectionCount, toPlainText } from './utils'
 
 describe('parseDateRange', () => {
   describe('basic date range parsing', () => {
@@ -128,3 +128,20 @@ describe('plainText helpers', () => {
     expect(result).toBe('Title\nMeta')
   })
 })
+
+describe('parseMutualConnectionCount', () => {
+  test('adds named connections to the "other" count', () => {
+    expect(parseMutualConnectionCount('Alex Kim, Sam Lee and 12 other mutual connections')).toBe(14)
+    expect(parseMutualConnectionCount('Alex Kim, Sam Lee, and 1 other mutual connection')).toBe(3)
+  })
+
+  test('counts lines that only list names', () => {
+    expect(parseMutualConnectionCount('Alex Kim is a mutual connection')).toBe(1)
+    expect(parseMutualConnectionCount('Alex Kim and Sam Lee are mutual connections')).toBe(2)
+  })
+
+  test('handles bare counts and unrelated text', () => {
+    expect(parseMutualConnectionCount('1,204 mutual connections')).toBe(1204)
+    expect(parseMutualConnectionCount('500+ connections')).toBeUndefined()
+  })
+})
@@ -183,3 +183,52 @@ export function isDescriptionLike(text: string): boolean {
     text.length > SCRAPING_CONSTANTS.MIN_DESCRIPTION_LENGTH
   )
 }
+
+/**
+ * Normalizes a profile link to a canonical "https://www.linkedin.com/in/<id>/" URL.
+ * Returns null when the link does not point at a member profile.
+ */
+export function normalizeProfileUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url, 'https://www.linkedin.com')
+    const match = parsed.pathname.match(/^\/in\/([^/]+)/)
+    if (!match?.[1]) return null
+
+    return `https://www.linkedin.com/in/${match[1]}/`
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Extracts a connection degree ("1st", "2nd", "3rd+") from a short label such as "· 2nd".
+ */
+export function parseConnectionDegree(text: string): string | null {
+  if (text.length > 40) return null
+
+  const match = text.match(/\b(1st|2nd|3rd\+?)(?!\w)/)
+  return match?.[1] ?? null
+}
+
+/**
+ * Counts the mutual connections described by a top-card line such as
+ * "Alex Kim, Sam Lee and 12 other mutual connections" or "Alex Kim is a mutual connection".
+ */
+export function parseMutualConnectionCount(text: string): number | undefined {
+  const normalized = text.replace(/\s+/g, ' ').trim()
+  if (!/\bmutual connections?\b/i.test(normalized)) return undefined
+
+  const bare = normalized.match(/^(\d[\d,]*) mutual connections?$/i)
+  if (bare?.[1]) return Number.parseInt(bare[1].replace(/,/g, ''), 10)
+
+  const others = normalized.match(/\band (\d[\d,]*) others?\b/i)
+  const otherCount = others?.[1] ? Number.parseInt(others[1].replace(/,/g, ''), 10) : 0
+
+  const namedPart = normalized.split(/,?\s+and \d[\d,]* others?\b|\s+(?:is|are) (?:a )?mutual connections?\b/i)[0] ?? ''
+  const namedCount = namedPart
+    .split(/,\s*(?:and\s+)?|\s+and\s+/i)
+    .map((name) => name.trim())
+    .filter(Boolean).length
+
+  return namedCount + otherCount || undefined
+}
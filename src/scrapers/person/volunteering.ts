@@ -0,0 +1,30 @@
+import type { Page } from 'playwright'
+import { VolunteeringPageExtractor } from '../../extraction/page-extractors'
+import { VolunteeringParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { Volunteering } from '../../models/person'
+import { log } from '../../utils/logger'
+
+export async function getVolunteering(page: Page, baseUrl: string): Promise<Volunteering[]> {
+  try {
+    const pipeline = new ExtractionPipeline<Volunteering>({
+      pageExtractor: new VolunteeringPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new VolunteeringParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (item) => `${item.role}|${item.organization || ''}|${item.fromDate || ''}`,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl })
+    log.info(
+      `Got ${result.items.length} volunteering experiences (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    return result.items
+  } catch (e) {
+    log.warning(`Error getting volunteering experiences: ${e}`)
+    return []
+  }
+}
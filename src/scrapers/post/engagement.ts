@@ -0,0 +1,64 @@
+import type { Page } from 'playwright'
+import { PostCommentsPageExtractor, PostReactionsPageExtractor } from '../../extraction/page-extractors'
+import { CommentParser, ReactorParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import type { PostComment, PostReactor } from '../../models'
+import { log } from '../../utils/logger'
+import { closeModals } from '../utils'
+
+export async function getPostReactions(
+  page: Page,
+  postUrl: string,
+  options: { maxItems?: number } = {},
+): Promise<PostReactor[]> {
+  try {
+    const pipeline = new ExtractionPipeline<PostReactor>({
+      pageExtractor: new PostReactionsPageExtractor(options),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new ReactorParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (reactor) => reactor.linkedinUrl ?? reactor.name,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl: postUrl })
+    log.info(
+      `Got ${result.items.length} reactions (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    return result.items
+  } catch (e) {
+    log.warning(`Error getting post reactions: ${e}`)
+    return []
+  } finally {
+    await closeModals(page)
+  }
+}
+
+export async function getPostComments(
+  page: Page,
+  postUrl: string,
+  options: { maxItems?: number } = {},
+): Promise<PostComment[]> {
+  try {
+    const pipeline = new ExtractionPipeline<PostComment>({
+      pageExtractor: new PostCommentsPageExtractor(options),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new CommentParser(),
+      confidenceThreshold: 0.25,
+      captureHtmlOnFailure: true,
+      deduplicateKey: (comment) => `${comment.authorName}|${comment.text}`,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl: postUrl })
+    log.info(
+      `Got ${result.items.length} comments (extractor: ${result.diagnostics.textExtractorUsed ?? 'none'}, confidence: ${result.diagnostics.avgConfidence.toFixed(2)})`,
+    )
+
+    return result.items
+  } catch (e) {
+    log.warning(`Error getting post comments: ${e}`)
+    return []
+  }
+}
@@ -0,0 +1,63 @@
+import type { Page } from 'playwright'
+import type { ProgressCallback } from '../../callbacks'
+import { RateLimitError, ScrapingError } from '../../exceptions'
+import type { PostEngagement } from '../../models'
+import { createPostEngagement } from '../../models'
+import { log } from '../../utils/logger'
+import { ensureLoggedIn, navigateAndWait, waitAndFocus } from '../utils'
+import { getPostComments, getPostReactions } from './engagement'
+
+export interface PostEngagementOptions {
+  callback?: ProgressCallback
+  /** Collect reactors from the reactions modal (default true) */
+  reactions?: boolean
+  /** Collect top-level comments (default true) */
+  comments?: boolean
+  /** Maximum number of reactors to return (default 100) */
+  maxReactions?: number
+  /** Maximum number of comments to return (default 100) */
+  maxComments?: number
+}
+
+/**
+ * Scrapes who reacted to and commented on a post.
+ * Reactors and comment authors are returned as stubs that can be passed to `scrapePerson`.
+ */
+export async function scrapePostEngagement(
+  page: Page,
+  postUrl: string,
+  options?: PostEngagementOptions,
+): Promise<PostEngagement> {
+  const callback = options?.callback
+
+  await callback?.onStart('post-engagement', postUrl)
+
+  try {
+    await navigateAndWait(page, postUrl, callback)
+    log.debug('Navigated to post')
+
+    await ensureLoggedIn(page)
+
+    await page.waitForSelector('main', { timeout: 10000 })
+    await waitAndFocus(page, 1)
+
+    const reactors =
+      options?.reactions === false ? [] : await getPostReactions(page, postUrl, { maxItems: options?.maxReactions })
+    log.debug(`Got ${reactors.length} reactors`)
+
+    const comments =
+      options?.comments === false ? [] : await getPostComments(page, postUrl, { maxItems: options?.maxComments })
+    log.debug(`Got ${comments.length} comments`)
+
+    const engagement = createPostEngagement({ postUrl, reactors, comments })
+
+    log.debug('Scraping complete')
+    await callback?.onComplete('post-engagement', engagement)
+
+    return engagement
+  } catch (e: any) {
+    await callback?.onError(`Failed to scrape post engagement: ${e.message}`, e)
+    if (e instanceof RateLimitError) throw e
+    throw new ScrapingError(`Failed to scrape post engagement: ${e.message}`)
+  }
+}
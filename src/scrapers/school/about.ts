@@ -0,0 +1,26 @@
+import type { Page } from 'playwright'
+import { SchoolPageExtractor } from '../../extraction/page-extractors'
+import { type SchoolAbout, SchoolParser } from '../../extraction/parsers'
+import { ExtractionPipeline } from '../../extraction/pipeline'
+import { AriaTextExtractor, RawTextExtractor, SemanticTextExtractor } from '../../extraction/text-extractors'
+import { log } from '../../utils/logger'
+
+export async function getSchoolAbout(page: Page, baseUrl: string): Promise<SchoolAbout | null> {
+  try {
+    const pipeline = new ExtractionPipeline<SchoolAbout>({
+      pageExtractor: new SchoolPageExtractor(),
+      textExtractors: [new AriaTextExtractor(), new SemanticTextExtractor(), new RawTextExtractor()],
+      parser: new SchoolParser(),
+      confidenceThreshold: 0,
+      captureHtmlOnFailure: true,
+    })
+
+    const result = await pipeline.extract({ page, baseUrl })
+    log.info(`Got school about section (items: ${result.items.length})`)
+
+    return result.items[0] ?? null
+  } catch (e) {
+    log.warning(`Error getting school about section: ${e}`)
+    return null
+  }
+}
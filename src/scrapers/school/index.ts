@@ -0,0 +1,47 @@
+import type { Page } from 'playwright'
+import type { ProgressCallback } from '../../callbacks'
+import { ScrapingError } from '../../exceptions'
+import type { SchoolData } from '../../models'
+import { createSchool } from '../../models'
+import { log } from '../../utils/logger'
+import { ensureLoggedIn, navigateAndWait, waitAndFocus } from '../utils'
+import { getSchoolAbout } from './about'
+
+export interface SchoolScraperOptions {
+  callback?: ProgressCallback
+}
+
+/**
+ * Scrapes a LinkedIn school page, e.g. one linked from `Education.linkedinUrl`.
+ */
+export async function scrapeSchool(page: Page, schoolUrl: string, options?: SchoolScraperOptions): Promise<SchoolData> {
+  const callback = options?.callback
+
+  await callback?.onStart('school', schoolUrl)
+
+  try {
+    await navigateAndWait(page, schoolUrl, callback)
+    log.debug('Navigated to school page')
+
+    await ensureLoggedIn(page)
+
+    await page.waitForSelector('main', { timeout: 10000 })
+    await waitAndFocus(page, 1)
+
+    const about = await getSchoolAbout(page, schoolUrl)
+    log.debug(`Got school: ${about?.name}`)
+
+    const school = createSchool({
+      linkedinUrl: schoolUrl,
+      ...about,
+    } as SchoolData)
+
+    log.debug('Scraping complete')
+    await callback?.onComplete('school', school)
+
+    return school
+  } catch (e: any) {
+    await callback?.onError(`Failed to scrape school page: ${e.message}`, e)
+    throw new ScrapingError(`Failed to scrape school page: ${e.message}`)
+  }
+}
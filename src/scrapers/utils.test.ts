@@ -0,0 +1,23 @@
+import { describe, expect, test } from 'bun:test'
+import { matchesSearchUrl } from './utils'
+
+describe('matchesSearchUrl', () => {
+  test('ignores parameter order and parameters LinkedIn adds after loading', () => {
+    expect(
+      matchesSearchUrl(
+        'https://www.linkedin.com/jobs/search/?currentJobId=123&location=Berlin&keywords=engineer&origin=JOB_SEARCH_PAGE_SEARCH_BUTTON&refresh=true',
+        'https://www.linkedin.com/jobs/search/?keywords=engineer&location=Berlin',
+      ),
+    ).toBe(true)
+  })
+
+  test('distinguishes result pages and filters', () => {
+    const firstPage = 'https://www.linkedin.com/search/results/people/?keywords=design'
+
+    expect(matchesSearchUrl('https://www.linkedin.com/search/results/people/?keywords=design&page=2', firstPage)).toBe(
+      false,
+    )
+    expect(matchesSearchUrl('https://www.linkedin.com/search/results/people/?keywords=product', firstPage)).toBe(false)
+    expect(matchesSearchUrl('about:blank', firstPage)).toBe(false)
+  })
+})
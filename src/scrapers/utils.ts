@@ -61,8 +61,12 @@ export async function scrollElementIntoView(page: Page, selector: string): Promi
  * Clicks all "See More" buttons on the page.
  * Returns the number of buttons clicked.
  */
-export async function clickAllSeeMoreButtons(page: Page, maxAttempts: number = 10): Promise<number> {
-  return await clickSeeMoreButtons(page, maxAttempts)
+export async function clickAllSeeMoreButtons(
+  page: Page,
+  maxAttempts: number = 10,
+  buttonSelector?: string,
+): Promise<number> {
+  return await clickSeeMoreButtons(page, maxAttempts, buttonSelector)
 }
 
 /**
@@ -135,6 +139,34 @@ export async function navigateAndWait(
   await checkRateLimit(page)
 }
 
+// Parameters LinkedIn adds or rewrites on search pages that do not change which results are shown
+const IGNORED_SEARCH_PARAMS = new Set(['origin', 'currentJobId', 'refresh', 'sid', 'trk', 'spellCorrectionEnabled'])
+
+/**
+ * Determines whether the page is already showing a search URL. LinkedIn reorders query
+ * parameters and adds tracking ones after loading a search, so URLs are compared by
+ * pathname and the parameters that select results.
+ */
+export function matchesSearchUrl(currentUrl: string, targetUrl: string): boolean {
+  try {
+    const current = new URL(currentUrl)
+    const target = new URL(targetUrl)
+    if (current.hostname !== target.hostname) return false
+    if (current.pathname.replace(/\/$/, '') !== target.pathname.replace(/\/$/, '')) return false
+
+    const relevant = (url: URL) =>
+      [...url.searchParams.entries()]
+        .filter(([name]) => !IGNORED_SEARCH_PARAMS.has(name))
+        .map(([name, value]) => `${name}=${value}`)
+        .sort()
+        .join('&')
+
+    return relevant(current) === relevant(target)
+  } catch {
+    return false
+  }
+}
+
 /**
  * Extracts list items from a container element.
  * Returns an array of Locators for each item.
@@ -208,3 +240,55 @@ export async function elementExists(page: Page, selector: string, timeout: numbe
     return false
   }
 }
+
+/**
+ * Parses a LinkedIn count string ("1,234", "12K", "1.5M followers", "500+") into a number.
+ * Returns undefined when the text contains no count.
+ */
+export function parseCount(text: string): number | undefined {
+  const match = text.match(/(\d[\d,.]*)\s*([KkMm])?\b/)
+  if (!match?.[1]) return undefined
+
+  const suffix = match[2]?.toUpperCase()
+  const raw = suffix ? match[1].replace(/,/g, '') : match[1].replace(/[,.]/g, '')
+  const value = Number.parseFloat(raw)
+  if (Number.isNaN(value)) return undefined
+
+  if (suffix === 'K') return Math.round(value * 1_000)
+  if (suffix === 'M') return Math.round(value * 1_000_000)
+  return value
+}
+
+const RELATIVE_TIME_UNITS: Array<[RegExp, (date: Date, amount: number) => void]> = [
+  [/^(?:yrs?|years?|y)$/i, (date, amount) => date.setUTCFullYear(date.getUTCFullYear() - amount)],
+  [/^(?:mos?|months?)$/i, (date, amount) => date.setUTCMonth(date.getUTCMonth() - amount)],
+  [/^(?:w|wks?|weeks?)$/i, (date, amount) => date.setUTCDate(date.getUTCDate() - amount * 7)],
+  [/^(?:d|days?)$/i, (date, amount) => date.setUTCDate(date.getUTCDate() - amount)],
+  [/^(?:h|hrs?|hours?)$/i, (date, amount) => date.setUTCHours(date.getUTCHours() - amount)],
+  [/^(?:m|mins?|minutes?)$/i, (date, amount) => date.setUTCMinutes(date.getUTCMinutes() - amount)],
+  [/^(?:s|secs?|seconds?)$/i, (date, amount) => date.setUTCSeconds(date.getUTCSeconds() - amount)],
+]
+
+/**
+ * Determines if a short line is a relative timestamp ("2w", "3mo • Edited", "5 days ago").
+ */
+export function isRelativeTimestamp(text: string): boolean {
+  const looksRelative = /^\d+\s?(?:s|m|h|d|w|mo|yrs?)\b\s*(?:[·•].*)?$/i.test(text) || /^\d+\s+\w+\s+ago$/i.test(text)
+  return looksRelative && !!relativeTimeToDate(text)
+}
+
+/**
+ * Converts a relative LinkedIn timestamp ("2w", "3mo •", "5 days ago") into an approximate
+ * ISO date (YYYY-MM-DD). Returns undefined when the text is not a relative time.
+ */
+export function relativeTimeToDate(text: string, now: Date = new Date()): string | undefined {
+  const match = text.trim().match(/^(\d+)\s*([a-z]+)\b/i)
+  if (!match?.[1] || !match[2]) return undefined
+
+  const unit = RELATIVE_TIME_UNITS.find(([pattern]) => pattern.test(match[2] ?? ''))
+  if (!unit) return undefined
+
+  const date = new Date(now.getTime())
+  unit[1](date, Number.parseInt(match[1], 10))
+  return date.toISOString().slice(0, 10)
+}
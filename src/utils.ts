@@ -235,13 +235,18 @@ export async function scrollToHalf(page: Page): Promise<void> {
   await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight / 2))
 }
 
-export async function clickSeeMoreButtons(page: Page, maxAttempts: number = 10): Promise<number> {
+const SEE_MORE_BUTTON_SELECTOR =
+  'button:has-text("See more"), button:has-text("Show more"), button:has-text("show all")'
+
+export async function clickSeeMoreButtons(
+  page: Page,
+  maxAttempts: number = 10,
+  buttonSelector: string = SEE_MORE_BUTTON_SELECTOR,
+): Promise<number> {
   let clicked = 0
   for (let i = 0; i < maxAttempts; i++) {
     try {
-      const seeMore = page
-        .locator('button:has-text("See more"), button:has-text("Show more"), button:has-text("show all")')
-        .first()
+      const seeMore = page.locator(buttonSelector).first()
 
       if (await seeMore.isVisible({ timeout: 1000 })) {
         await seeMore.click()
@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { existsSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { chromium } from 'playwright'
+import { BrowserManager } from '../src/browser'
+import { getEducations } from '../src/scrapers/person/educations'
+
+async function loadFixture(name: string): Promise<string> {
+  return await readFile(new URL(`./fixtures/${name}`, import.meta.url), 'utf8')
+}
+
+const canRunPlaywright = existsSync(chromium.executablePath())
+const describeEducation = canRunPlaywright ? describe : describe.skip
+
+describeEducation('Education details', () => {
+  let browserManager: BrowserManager
+
+  beforeAll(async () => {
+    browserManager = new BrowserManager({ headless: true })
+    await browserManager.start()
+  })
+
+  afterAll(async () => {
+    await browserManager.close()
+  })
+
+  test('extracts degree, field of study, grade and activities, tolerating omitted lines', async () => {
+    const page = browserManager.page
+    const fixture = await loadFixture('education-details.html')
+
+    await page.setContent(`<!doctype html><html><body>${fixture}</body></html>`)
+    const educations = await getEducations(page, 'https://www.linkedin.com/in/test')
+
+    expect(educations).toHaveLength(3)
+    expect(educations[0]).toMatchObject({
+      institutionName: 'State University',
+      degree: 'Bachelor of Science - BS',
+      fieldOfStudy: 'Computer Science',
+      fromDate: '2012',
+      toDate: '2016',
+      grade: '3.8 GPA',
+      activitiesAndSocieties: 'ACM Chapter, Robotics Club',
+      description: 'Thesis on distributed consensus under partial network failures and recovery.',
+    })
+    expect(educations[1]).toMatchObject({
+      institutionName: 'Coastal College',
+      fromDate: '2010',
+      toDate: '2012',
+      activitiesAndSocieties: 'Debate Team',
+    })
+    expect(educations[1]?.degree).toBeUndefined()
+    expect(educations[2]).toMatchObject({
+      institutionName: 'Northwind Business School',
+      degree: 'Master of Business Administration - MBA',
+    })
+    expect(educations[2]?.fromDate).toBeUndefined()
+    expect(educations[2]?.fieldOfStudy).toBeUndefined()
+  })
+})
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { existsSync } from 'node:fs'
+import { chromium } from 'playwright'
+import { BrowserManager } from '../../src/browser'
+import { buildCompanyPeoplePath, CompanyPeoplePageExtractor } from '../../src/extraction/page-extractors'
+
+const canRunPlaywright = existsSync(chromium.executablePath())
+const describeCompanyPeopleExtractor = canRunPlaywright ? describe : describe.skip
+
+describe('buildCompanyPeoplePath', () => {
+  test('returns the bare people path without filters', () => {
+    expect(buildCompanyPeoplePath({})).toBe('people/')
+  })
+
+  test('adds keyword and facet parameters', () => {
+    expect(
+      buildCompanyPeoplePath({
+        keywords: 'design',
+        locations: ['103644278'],
+        schools: ['1234'],
+        functions: ['8', '25'],
+      }),
+    ).toBe(
+      'people/?keywords=design&facetGeoRegion=103644278&facetSchool=1234&facetCurrentFunction=8&facetCurrentFunction=25',
+    )
+  })
+})
+
+describeCompanyPeopleExtractor('CompanyPeoplePageExtractor', () => {
+  let browserManager: BrowserManager
+
+  beforeAll(async () => {
+    browserManager = new BrowserManager({ headless: true })
+    await browserManager.start()
+  })
+
+  afterAll(async () => {
+    await browserManager.close()
+  })
+
+  test('caps the number of returned profile cards', async () => {
+    const page = browserManager.page
+    await page.route('**/*', async (route) => {
+      const url = new URL(route.request().url())
+      const body =
+        url.pathname === '/company/example/people/'
+          ? `<main><ul>${[1, 2, 3]
+              .map((n) => `<li class="org-people-profile-card__profile-card-spacing">Person ${n}</li>`)
+              .join('')}</ul></main>`
+          : '<main></main>'
+      await route.fulfill({ status: 200, contentType: 'text/html', body: `<html><body>${body}</body></html>` })
+    })
+    await page.goto('https://www.linkedin.com/company/example/')
+
+    const result = await new CompanyPeoplePageExtractor({ maxResults: 2 }).extract({
+      baseUrl: 'https://www.linkedin.com/company/example',
+      page,
+      scroll: { pauseTime: 0, maxScrolls: 1 },
+    })
+
+    expect(result.kind).toBe('list')
+    if (result.kind !== 'list') return
+    expect(result.items.length).toBe(2)
+  })
+})
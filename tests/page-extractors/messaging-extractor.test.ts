@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { existsSync } from 'node:fs'
+import { chromium } from 'playwright'
+import { BrowserManager } from '../../src/browser'
+import { MessageThreadPageExtractor } from '../../src/extraction/page-extractors'
+
+const canRunPlaywright = existsSync(chromium.executablePath())
+const describeMessagingExtractor = canRunPlaywright ? describe : describe.skip
+
+const THREAD_HTML = `<!doctype html><html><body>
+  <main>
+    <ul class="msg-s-message-list">
+      <li class="msg-s-message-list__event"><time class="msg-s-message-list__time-heading">Today</time></li>
+      <li class="msg-s-message-list__event" data-event-urn="urn:1">
+        <a class="msg-s-message-group__profile-link" href="/in/alex-kim/">Alex Kim</a>
+        <time class="msg-s-message-group__timestamp">3:45 PM</time>
+        <p class="msg-s-event-listitem__body">Hi there!</p>
+      </li>
+      <li class="msg-s-message-list__event" data-event-urn="urn:2">
+        <p class="msg-s-event-listitem__body">Are you free next week?</p>
+        <div class="msg-s-event-listitem__attachment-item"><a href="https://www.linkedin.com/dms/abc">agenda.pdf</a></div>
+      </li>
+    </ul>
+  </main>
+</body></html>`
+
+describeMessagingExtractor('MessageThreadPageExtractor', () => {
+  let browserManager: BrowserManager
+
+  beforeAll(async () => {
+    browserManager = new BrowserManager({ headless: true })
+    await browserManager.start()
+  })
+
+  afterAll(async () => {
+    await browserManager.close()
+  })
+
+  test('carries sender and time forward within a message group and skips date headings', async () => {
+    const page = browserManager.page
+    await page.route('**/*', (route) => route.fulfill({ status: 200, contentType: 'text/html', body: THREAD_HTML }))
+
+    const threadUrl = 'https://www.linkedin.com/messaging/thread/2-abc/'
+    await page.goto(threadUrl)
+
+    const result = await new MessageThreadPageExtractor().extract({ page, baseUrl: threadUrl, focusWait: 0 })
+
+    expect(result.kind).toBe('list')
+    if (result.kind !== 'list') return
+
+    expect(result.items).toHaveLength(2)
+    expect(result.items[0]?.context).toMatchObject({
+      heading: 'Today',
+      sender: 'Alex Kim',
+      time: '3:45 PM',
+      urn: 'urn:1',
+    })
+    expect(result.items[1]?.context).toMatchObject({
+      heading: 'Today',
+      sender: 'Alex Kim',
+      time: '3:45 PM',
+      urn: 'urn:2',
+    })
+    expect(JSON.parse(result.items[1]?.context.attachments ?? '[]')).toEqual([
+      { kind: 'file', name: 'agenda.pdf', url: 'https://www.linkedin.com/dms/abc' },
+    ])
+  })
+})
@@ -13,6 +13,7 @@ describe('AccomplishmentParser', () => {
 
     expect(parsed).not.toBeNull()
     expect(parsed?.category).toBe('certification')
+    if (parsed?.category !== 'certification') throw new Error('expected a certification')
     expect(parsed?.title).toBe('AWS Certified Developer')
     expect(parsed?.issuer).toBe('Amazon Web Services')
     expect(parsed?.issuedDate).toBe('Jan 2024')
@@ -20,4 +21,82 @@ describe('AccomplishmentParser', () => {
     expect(parsed?.credentialUrl).toBe('https://example.test/verify')
     expect(parser.validate(parsed!)).toBe(true)
   })
+
+  test('maps language proficiency instead of issuer', () => {
+    const parsed = parser.parse({
+      texts: ['Spanish', 'Full professional proficiency'],
+      links: [],
+      context: { category: 'language' },
+    })
+
+    expect(parsed).toEqual({
+      category: 'language',
+      title: 'Spanish',
+      proficiency: 'Full professional proficiency',
+      plainText: 'Spanish\nFull professional proficiency',
+    })
+  })
+
+  test('parses publication publisher, date, co-authors and url', () => {
+    const parsed = parser.parse({
+      texts: ['Adaptive Query Planning', 'Journal of Data Systems · Mar 3, 2022', 'Other authors', 'Show publication'],
+      links: [
+        { url: 'https://www.linkedin.com/in/riley-park/', text: 'Riley Park', isExternal: false },
+        { url: 'https://journal.example.test/aqp', text: 'Show publication', isExternal: true },
+      ],
+      context: { category: 'publication' },
+    })
+
+    if (parsed?.category !== 'publication') throw new Error('expected a publication')
+    expect(parsed.publisher).toBe('Journal of Data Systems')
+    expect(parsed.date).toBe('Mar 3, 2022')
+    expect(parsed.coAuthors).toEqual(['Riley Park'])
+    expect(parsed.url).toBe('https://journal.example.test/aqp')
+  })
+
+  test('parses project dates, association and contributors', () => {
+    const parsed = parser.parse({
+      texts: ['Search Relevance Revamp', 'Jan 2021 - Present', 'Associated with Northwind', 'Rebuilt ranking.'],
+      links: [{ url: 'https://www.linkedin.com/in/jordan-vale/', text: 'Jordan Vale', isExternal: false }],
+      context: { category: 'project' },
+    })
+
+    if (parsed?.category !== 'project') throw new Error('expected a project')
+    expect(parsed.fromDate).toBe('Jan 2021')
+    expect(parsed.toDate).toBe('Present')
+    expect(parsed.associatedWith).toBe('Northwind')
+    expect(parsed.contributors).toEqual(['Jordan Vale'])
+    expect(parsed.description).toBe('Rebuilt ranking.')
+  })
+
+  test('splits organization position and dates', () => {
+    const parsed = parser.parse({
+      texts: ['IEEE', 'Member · Jan 2019 - Present'],
+      links: [],
+      context: { category: 'organization' },
+    })
+
+    if (parsed?.category !== 'organization') throw new Error('expected an organization')
+    expect(parsed.position).toBe('Member')
+    expect(parsed.fromDate).toBe('Jan 2019')
+    expect(parsed.toDate).toBe('Present')
+  })
+
+  test('parses test score, date and association', () => {
+    const parsed = parser.parse({
+      texts: ['GMAT', 'Score: 740 · Aug 2019', 'Associated with Northwind Business School'],
+      links: [],
+      context: { category: 'test-score' },
+    })
+
+    if (parsed?.category !== 'test-score') throw new Error('expected a test score')
+    expect(parsed.title).toBe('GMAT')
+    expect(parsed.score).toBe('740')
+    expect(parsed.date).toBe('Aug 2019')
+    expect(parsed.associatedWith).toBe('Northwind Business School')
+  })
+
+  test('returns null for unknown categories', () => {
+    expect(parser.parse({ texts: ['Something'], links: [], context: {} })).toBeNull()
+  })
 })
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test'
+import { GroupParser, NewsletterParser } from '../../src/extraction/parsers'
+
+describe('GroupParser', () => {
+  const parser = new GroupParser()
+
+  test('parses name, member count, description and owner', () => {
+    const [parsed] = parser.parseRaw([
+      { heading: 'name', text: 'TypeScript Developers', labels: [], anchors: [] },
+      { heading: 'counts', text: '48,213 members', labels: ['48,213 members', '12 members you know'], anchors: [] },
+      { heading: 'about', text: 'A place to discuss TypeScript.', labels: [], anchors: [] },
+      {
+        heading: 'owner',
+        text: 'Jordan Blake',
+        labels: [],
+        anchors: [{ href: '/in/jordan-blake/', text: 'Jordan Blake' }],
+      },
+    ])
+
+    expect(parsed).toEqual({
+      name: 'TypeScript Developers',
+      description: 'A place to discuss TypeScript.',
+      owner: 'Jordan Blake',
+      ownerUrl: 'https://www.linkedin.com/in/jordan-blake/',
+      memberCount: 48213,
+    })
+  })
+
+  test('returns nothing without a name', () => {
+    expect(parser.parseRaw([{ heading: 'counts', text: '10 members', labels: [], anchors: [] }])).toEqual([])
+  })
+})
+
+describe('NewsletterParser', () => {
+  const parser = new NewsletterParser()
+
+  test('parses subscriber count and author', () => {
+    const [parsed] = parser.parseRaw([
+      { heading: 'name', text: 'Weekly Systems', labels: [], anchors: [] },
+      { heading: 'counts', text: '8K subscribers', labels: ['8K subscribers'], anchors: [] },
+      { heading: 'about', text: 'Notes on distributed systems.', labels: [], anchors: [] },
+      {
+        heading: 'owner',
+        text: 'Contoso',
+        labels: [],
+        anchors: [{ href: 'https://www.linkedin.com/company/contoso/', text: 'Contoso' }],
+      },
+    ])
+
+    expect(parsed?.subscriberCount).toBe(8000)
+    expect(parsed?.description).toBe('Notes on distributed systems.')
+    expect(parsed?.owner).toBe('Contoso')
+    expect(parsed?.ownerUrl).toBe('https://www.linkedin.com/company/contoso/')
+  })
+})
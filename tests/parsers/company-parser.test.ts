@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test'
+import { CompanyParser } from '../../src/extraction/parsers'
+
+describe('CompanyParser', () => {
+  const parser = new CompanyParser()
+
+  test('parses top card and overview definition list', () => {
+    const [parsed] = parser.parseRaw([
+      { heading: 'name', text: 'Example Corp', labels: [], anchors: [] },
+      { heading: 'tagline', text: 'Tools for builders', labels: [], anchors: [] },
+      {
+        heading: 'summary',
+        text: 'Software Development · Austin, Texas · 12K followers',
+        labels: ['Software Development', 'Austin, Texas', '12K followers'],
+        anchors: [],
+      },
+      { heading: 'overview', text: 'We build developer tools.', labels: [], anchors: [] },
+      {
+        heading: 'website',
+        text: 'example.test',
+        labels: [],
+        anchors: [{ href: 'https://example.test', text: 'example.test' }],
+      },
+      { heading: 'industry', text: 'Software Development', labels: [], anchors: [] },
+      {
+        heading: 'company size',
+        text: '1,001-5,000 employees',
+        labels: ['2,345 associated members'],
+        anchors: [],
+      },
+      { heading: 'headquarters', text: 'Austin, Texas', labels: [], anchors: [] },
+      { heading: 'founded', text: '2012', labels: [], anchors: [] },
+      { heading: 'specialties', text: 'Cloud, Developer Tools, and Research and Development', labels: [], anchors: [] },
+    ])
+
+    expect(parsed).toEqual({
+      name: 'Example Corp',
+      tagline: 'Tools for builders',
+      followerCount: 12000,
+      about: 'We build developer tools.',
+      website: 'https://example.test',
+      industry: 'Software Development',
+      companySize: '1,001-5,000 employees',
+      headquarters: 'Austin, Texas',
+      founded: '2012',
+      specialties: ['Cloud', 'Developer Tools', 'Research and Development'],
+    })
+  })
+
+  test('returns no items without a company name', () => {
+    expect(parser.parseRaw([{ heading: 'industry', text: 'Software', labels: [], anchors: [] }])).toEqual([])
+  })
+})
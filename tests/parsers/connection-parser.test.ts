@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test'
+import { ConnectionParser } from '../../src/extraction/parsers'
+
+describe('ConnectionParser', () => {
+  const parser = new ConnectionParser()
+
+  test('parses name, headline, profile URL and connected-on date', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Member’s name',
+        'Taylor Nguyen',
+        'Member’s occupation',
+        'Engineering Manager at Contoso',
+        'Connected on March 3, 2024',
+        'Message',
+      ],
+      links: [{ url: '/in/taylor-nguyen-123/', text: 'Taylor Nguyen', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed?.name).toBe('Taylor Nguyen')
+    expect(parsed?.headline).toBe('Engineering Manager at Contoso')
+    expect(parsed?.linkedinUrl).toBe('https://www.linkedin.com/in/taylor-nguyen-123/')
+    expect(parsed?.connectedOn).toBe('March 3, 2024')
+  })
+
+  test('keeps relative connection dates and tolerates a missing headline', () => {
+    const parsed = parser.parse({
+      texts: ['Sam Ortiz', 'Connected 2 weeks ago'],
+      links: [{ url: 'https://www.linkedin.com/in/sam-ortiz', text: 'Sam Ortiz', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed?.headline).toBeUndefined()
+    expect(parsed?.connectedOn).toBe('2 weeks ago')
+  })
+
+  test('returns null for cards without a profile link', () => {
+    expect(parser.parse({ texts: ['Taylor Nguyen'], links: [], context: {} })).toBeNull()
+  })
+})
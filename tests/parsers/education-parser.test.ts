@@ -18,4 +18,52 @@ describe('EducationParser', () => {
     expect(parsed?.toDate).toBe('2018')
     expect(parser.validate(parsed!)).toBe(true)
   })
+
+  test('splits degree and field of study and extracts grade, activities and description', () => {
+    const parsed = parser.parse({
+      texts: [
+        'State University',
+        'Bachelor of Science - BS, Computer Science',
+        '2012 - 2016',
+        'Grade: 3.8 GPA',
+        'Activities and societies: ACM Chapter, Robotics Club',
+        'Thesis on distributed consensus under partial network failures.',
+        'Advised by the systems group.',
+        'Skills: Distributed Systems · C++',
+      ],
+      links: [],
+      context: {},
+    })
+
+    expect(parsed?.degree).toBe('Bachelor of Science - BS')
+    expect(parsed?.fieldOfStudy).toBe('Computer Science')
+    expect(parsed?.grade).toBe('3.8 GPA')
+    expect(parsed?.activitiesAndSocieties).toBe('ACM Chapter, Robotics Club')
+    expect(parsed?.description).toBe(
+      'Thesis on distributed consensus under partial network failures.\nAdvised by the systems group.',
+    )
+  })
+
+  test('keeps a degree abbreviation after the comma with the degree', () => {
+    const parsed = parser.parse({
+      texts: ['Harbor Business School', 'Master of Business Administration, MBA, Finance', '2018 - 2020'],
+      links: [],
+      context: {},
+    })
+
+    expect(parsed?.degree).toBe('Master of Business Administration, MBA')
+    expect(parsed?.fieldOfStudy).toBe('Finance')
+  })
+
+  test('handles entries without a degree line', () => {
+    const parsed = parser.parse({
+      texts: ['Coastal College', '2010 - 2012', 'Grade: A'],
+      links: [],
+      context: {},
+    })
+
+    expect(parsed?.degree).toBeUndefined()
+    expect(parsed?.fromDate).toBe('2010')
+    expect(parsed?.grade).toBe('A')
+  })
 })
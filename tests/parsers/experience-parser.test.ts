@@ -46,4 +46,98 @@ describe('ExperienceParser', () => {
     expect(parsed?.positions[0]?.title).toBe('Staff Engineer')
     expect(parser.validate(parsed!)).toBe(true)
   })
+
+  test('keeps the full multi-paragraph description and parses skills', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Senior Engineer',
+        'Example Corp · Full-time',
+        'Jan 2020 - Present · 4 yrs',
+        'Austin, Texas, United States',
+        'Led the migration of the billing platform to an event-driven architecture.',
+        'Highlights:',
+        '- Cut invoice latency by 80%',
+        'see less',
+        'Skills: Distributed Systems · TypeScript · +3 skills',
+      ],
+      links: [],
+      context: {},
+    })
+
+    const position = parsed?.positions[0]
+    expect(position?.location).toBe('Austin, Texas, United States')
+    expect(position?.description).toBe(
+      'Led the migration of the billing platform to an event-driven architecture.\nHighlights:\n- Cut invoice latency by 80%',
+    )
+    expect(position?.skills).toEqual(['Distributed Systems', 'TypeScript'])
+    expect(position?.hiddenSkillCount).toBe(3)
+  })
+
+  test('keeps a short opening line of the description', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Staff Engineer',
+        'Example Corp · Full-time',
+        'Mar 2021 - Present · 3 yrs',
+        'Tech lead for payments.',
+        'Owned the checkout and refunds services across three teams.',
+      ],
+      links: [],
+      context: {},
+    })
+
+    const position = parsed?.positions[0]
+    expect(position?.location).toBeUndefined()
+    expect(position?.description).toBe(
+      'Tech lead for payments.\nOwned the checkout and refunds services across three teams.',
+    )
+  })
+
+  test('collects attached media per position without using it as the company url', () => {
+    const parsed = parser.parse({
+      texts: ['Example Corp', 'Q3 Roadmap.pdf'],
+      links: [
+        {
+          url: 'https://www.linkedin.com/redir/redirect?url=https%3A%2F%2Ffiles.example.test%2Froadmap.pdf',
+          text: '',
+          isExternal: false,
+        },
+        { url: 'https://www.linkedin.com/company/example/', text: 'Example Corp', isExternal: false },
+      ],
+      context: {
+        media: JSON.stringify([
+          {
+            url: 'https://www.linkedin.com/redir/redirect?url=https%3A%2F%2Ffiles.example.test%2Froadmap.pdf',
+            title: 'Q3 Roadmap.pdf',
+            thumbnailUrl: 'https://media.example.test/roadmap-thumb.jpg',
+          },
+        ]),
+      },
+      subItems: [
+        {
+          texts: ['Staff Engineer', 'Jan 2022 - Present · 2 yrs', 'Q3 Roadmap.pdf'],
+          links: [
+            {
+              url: 'https://www.linkedin.com/redir/redirect?url=https%3A%2F%2Ffiles.example.test%2Froadmap.pdf',
+              text: '',
+              isExternal: false,
+            },
+          ],
+          context: {},
+        },
+        { texts: ['Senior Engineer', 'Jan 2020 - Jan 2022 · 2 yrs'], links: [], context: {} },
+      ],
+    })
+
+    expect(parsed?.companyUrl).toBe('https://www.linkedin.com/company/example/')
+    expect(parsed?.positions[0]?.media).toEqual([
+      {
+        kind: 'document',
+        title: 'Q3 Roadmap.pdf',
+        url: 'https://files.example.test/roadmap.pdf',
+        thumbnailUrl: 'https://media.example.test/roadmap-thumb.jpg',
+      },
+    ])
+    expect(parsed?.positions[1]?.media).toEqual([])
+  })
 })
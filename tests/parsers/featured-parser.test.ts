@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'bun:test'
+import { FeaturedParser } from '../../src/extraction/parsers'
+
+describe('FeaturedParser', () => {
+  const parser = new FeaturedParser()
+
+  test('uses the card label as kind and decodes redirect links', () => {
+    const parsed = parser.parse({
+      texts: ['Link', 'Scaling research pipelines', 'engineering.example.test'],
+      links: [
+        {
+          url: 'https://www.linkedin.com/redir/redirect?url=https%3A%2F%2Fengineering.example.test%2Fscaling',
+          text: 'Scaling research pipelines',
+          isExternal: false,
+        },
+      ],
+      context: { thumbnailUrl: 'https://media.licdn.com/thumb.jpg' },
+    })
+
+    expect(parsed).not.toBeNull()
+    expect(parsed?.kind).toBe('link')
+    expect(parsed?.title).toBe('Scaling research pipelines')
+    expect(parsed?.subtitle).toBe('engineering.example.test')
+    expect(parsed?.url).toBe('https://engineering.example.test/scaling')
+    expect(parsed?.thumbnailUrl).toBe('https://media.licdn.com/thumb.jpg')
+    expect(parser.validate(parsed!)).toBe(true)
+  })
+
+  test('infers kind from the url when no label is present', () => {
+    const parsed = parser.parse({
+      texts: ['Why we rewrote our scheduler', '45 reactions', '3 comments'],
+      links: [],
+      context: { href: 'https://www.linkedin.com/pulse/why-we-rewrote-scheduler-jordan-vale/' },
+    })
+
+    expect(parsed?.kind).toBe('article')
+    expect(parsed?.title).toBe('Why we rewrote our scheduler')
+    expect(parsed?.subtitle).toBeUndefined()
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test'
+import { JobDescriptionParser, JobPostingParser } from '../../src/extraction/parsers'
+
+describe('JobPostingParser', () => {
+  const parser = new JobPostingParser()
+
+  test('parses top card metadata, insights and skills', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Example Corp',
+        'Senior Platform Engineer',
+        'Austin, TX · Reposted 2 weeks ago · Over 100 applicants',
+        '$150K/yr - $200K/yr',
+        'Hybrid',
+        'Full-time',
+        'Skills: Go, Kubernetes, Distributed Systems, +5 more',
+        'Easy Apply',
+      ],
+      links: [{ url: 'https://www.linkedin.com/company/example/life/', text: 'Example Corp', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed).toEqual({
+      title: 'Senior Platform Engineer',
+      company: 'Example Corp',
+      companyUrl: 'https://www.linkedin.com/company/example/life/',
+      location: 'Austin, TX',
+      postedDate: '2 weeks ago',
+      applicantCount: 100,
+      salaryRange: '$150K/yr - $200K/yr',
+      workplaceType: 'Hybrid',
+      employmentType: 'Full-time',
+      skills: ['Go', 'Kubernetes', 'Distributed Systems'],
+    })
+    expect(parser.validate(parsed as NonNullable<typeof parsed>)).toBe(true)
+  })
+
+  test('reads workplace type from a parenthesized location', () => {
+    const parsed = parser.parse({
+      texts: ['Data Analyst', 'Example Corp · Berlin, Germany (Remote) · 3 days ago'],
+      links: [{ url: 'https://www.linkedin.com/company/example/', text: 'Example Corp', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed?.title).toBe('Data Analyst')
+    expect(parsed?.location).toBe('Berlin, Germany')
+    expect(parsed?.workplaceType).toBe('Remote')
+    expect(parsed?.postedDate).toBe('3 days ago')
+  })
+})
+
+describe('JobDescriptionParser', () => {
+  const parser = new JobDescriptionParser()
+
+  test('drops heading and expander labels', () => {
+    const parsed = parser.parse({
+      texts: ['About the job', 'We are hiring.', '• Build services', 'Show less'],
+      links: [],
+      context: {},
+    })
+
+    expect(parsed).toBe('We are hiring.\n• Build services')
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test'
+import { JobStubParser } from '../../src/extraction/parsers'
+import { buildJobSearchUrl } from '../../src/scrapers/job/search'
+
+describe('JobStubParser', () => {
+  const parser = new JobStubParser()
+
+  test('parses a result card using the job id from context', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Senior Platform Engineer',
+        'Example Corp',
+        'Austin, TX (Hybrid)',
+        'Promoted',
+        '2 days ago',
+        'Easy Apply',
+      ],
+      links: [{ url: '/jobs/view/4012345678/?trackingId=abc', text: 'Senior Platform Engineer', isExternal: false }],
+      context: { jobId: '4012345678' },
+    })
+
+    expect(parsed).toEqual({
+      jobId: '4012345678',
+      linkedinUrl: 'https://www.linkedin.com/jobs/view/4012345678/',
+      title: 'Senior Platform Engineer',
+      company: 'Example Corp',
+      location: 'Austin, TX (Hybrid)',
+      postedDate: '2 days ago',
+      plainText: 'Senior Platform Engineer\nExample Corp\nAustin, TX (Hybrid)\nPromoted\n2 days ago\nEasy Apply',
+    })
+  })
+
+  test('falls back to the job link when context has no id', () => {
+    const parsed = parser.parse({
+      texts: ['Data Analyst', 'Example Corp'],
+      links: [{ url: 'https://www.linkedin.com/jobs/view/data-analyst-at-example-987/', text: '', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed?.jobId).toBe('987')
+  })
+})
+
+describe('buildJobSearchUrl', () => {
+  test('encodes filters and pagination offset', () => {
+    const url = new URL(
+      buildJobSearchUrl(
+        {
+          keywords: 'platform engineer',
+          location: 'Austin, Texas',
+          datePosted: 'past-week',
+          experienceLevels: ['mid-senior', 'director'],
+          workplaceTypes: ['remote'],
+        },
+        2,
+      ),
+    )
+
+    expect(url.pathname).toBe('/jobs/search/')
+    expect(url.searchParams.get('keywords')).toBe('platform engineer')
+    expect(url.searchParams.get('location')).toBe('Austin, Texas')
+    expect(url.searchParams.get('f_TPR')).toBe('r604800')
+    expect(url.searchParams.get('f_E')).toBe('4,5')
+    expect(url.searchParams.get('f_WT')).toBe('2')
+    expect(url.searchParams.get('start')).toBe('50')
+  })
+})
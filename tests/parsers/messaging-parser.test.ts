@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test'
+import { ConversationParser, MessageParser } from '../../src/extraction/parsers'
+
+describe('ConversationParser', () => {
+  const parser = new ConversationParser()
+
+  test('parses participants, snippet, timestamp and unread flag', () => {
+    const parsed = parser.parse({
+      texts: ['Alex Kim, Sam Lee and 2 others', 'Jan 5', 'Sam: Sounds good, see you Monday', '1 new message'],
+      links: [],
+      context: {
+        threadUrl: 'https://www.linkedin.com/messaging/thread/2-abc/',
+        timestamp: 'Jan 5',
+        unread: 'true',
+      },
+    })
+
+    expect(parsed).toEqual({
+      threadUrl: 'https://www.linkedin.com/messaging/thread/2-abc/',
+      participants: ['Alex Kim', 'Sam Lee'],
+      snippet: 'Sam: Sounds good, see you Monday',
+      timestamp: 'Jan 5',
+      unread: true,
+      plainText: 'Alex Kim, Sam Lee and 2 others\nJan 5\nSam: Sounds good, see you Monday\n1 new message',
+    })
+  })
+
+  test('treats cards without unread context as read', () => {
+    const parsed = parser.parse({
+      texts: ['Riley Park', 'Active now', 'You: Thanks!'],
+      links: [],
+      context: {},
+    })
+
+    expect(parsed?.participants).toEqual(['Riley Park'])
+    expect(parsed?.snippet).toBe('You: Thanks!')
+    expect(parsed?.unread).toBe(false)
+  })
+})
+
+describe('MessageParser', () => {
+  const parser = new MessageParser()
+
+  test('uses carried sender and time and keeps multi-line text', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Alex Kim',
+        '3:45 PM',
+        'Alex Kim sent the following messages at 3:45 PM',
+        'Hi there!',
+        'Are you free next week?',
+      ],
+      links: [],
+      context: {
+        heading: 'Today',
+        sender: 'Alex Kim',
+        senderUrl: 'https://www.linkedin.com/in/alex-kim-42?miniProfileUrn=x',
+        time: '3:45 PM',
+        urn: 'urn:li:msg_message:1',
+      },
+    })
+
+    expect(parsed?.sender).toBe('Alex Kim')
+    expect(parsed?.senderUrl).toBe('https://www.linkedin.com/in/alex-kim-42/')
+    expect(parsed?.text).toBe('Hi there!\nAre you free next week?')
+    expect(parsed?.timestamp).toBe('Today 3:45 PM')
+    expect(parsed?.urn).toBe('urn:li:msg_message:1')
+    expect(parsed?.attachments).toEqual([])
+  })
+
+  test('keeps attachment-only messages and drops attachment names from the text', () => {
+    const parsed = parser.parse({
+      texts: ['resume.pdf'],
+      links: [],
+      context: {
+        sender: 'Sam Lee',
+        attachments: JSON.stringify([{ kind: 'file', name: 'resume.pdf', url: 'https://www.linkedin.com/dms/abc' }]),
+      },
+    })
+
+    expect(parsed?.text).toBeUndefined()
+    expect(parsed?.attachments).toEqual([{ kind: 'file', name: 'resume.pdf', url: 'https://www.linkedin.com/dms/abc' }])
+  })
+
+  test('returns null for entries without text or attachments', () => {
+    expect(parser.parse({ texts: ['Today'], links: [], context: { heading: 'Today' } })).toBeNull()
+  })
+})
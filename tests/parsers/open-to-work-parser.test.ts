@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test'
+import { OpenToWorkParser } from '../../src/extraction/parsers'
+
+function section(heading: string, labels: string[]) {
+  return { heading, text: labels.join('\n'), labels, anchors: [] }
+}
+
+describe('OpenToWorkParser', () => {
+  const parser = new OpenToWorkParser()
+
+  test('parses job seeking preferences from the details modal', () => {
+    const [parsed] = parser.parseRaw([
+      section('jobs', [
+        'Open to work',
+        'Job titles',
+        'Staff Engineer · Principal Engineer · Engineering Manager',
+        'Workplaces',
+        'On-site · Hybrid · Remote',
+        'Locations (on-site)',
+        'Austin, Texas, United States',
+        'Locations (remote)',
+        'United States',
+        'Start date',
+        "Immediately, I'm actively applying",
+        'Employment types',
+        'Full-time · Contract',
+        'Dismiss',
+      ]),
+    ])
+
+    expect(parsed?.kind).toBe('jobs')
+    expect(parsed?.jobTitles).toEqual(['Staff Engineer', 'Principal Engineer', 'Engineering Manager'])
+    expect(parsed?.workplaceTypes).toEqual(['On-site', 'Hybrid', 'Remote'])
+    expect(parsed?.locations).toEqual(['Austin, Texas, United States', 'United States'])
+    expect(parsed?.startDate).toBe("Immediately, I'm actively applying")
+    expect(parsed?.employmentTypes).toEqual(['Full-time', 'Contract'])
+    expect(parser.validate(parsed!)).toBe(true)
+  })
+
+  test('falls back to the card summary for providing services', () => {
+    const [parsed] = parser.parseRaw([
+      section('services', ['Providing services', 'Web Development, Data Analysis and Consulting', 'Show details']),
+    ])
+
+    expect(parsed?.kind).toBe('services')
+    expect(parsed?.services).toEqual(['Web Development', 'Data Analysis', 'Consulting'])
+    expect(parsed?.jobTitles).toEqual([])
+  })
+
+  test('ignores unknown sections', () => {
+    expect(parser.parseRaw([section('other', ['Something'])])).toEqual([])
+  })
+})
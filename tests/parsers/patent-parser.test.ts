@@ -29,4 +29,50 @@ describe('PatentParser', () => {
     expect(parsed?.url).toBe('https://patents.example.test/abc')
     expect(parser.validate(parsed!)).toBe(true)
   })
+
+  test('separates office and number and collects inventors', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Adaptive Cache Eviction',
+        'US 11,123,456 B2 · Issued Mar 2, 2021',
+        'Evicts cache entries based on predicted reuse.',
+        'Other inventors',
+        'Riley Park',
+        'Sam Ortiz',
+        '+2',
+      ],
+      links: [{ url: 'https://www.linkedin.com/in/riley-park?trk=patent', text: 'Riley Park', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed?.office).toBe('US')
+    expect(parsed?.issuer).toBe('US')
+    expect(parsed?.number).toBe('11,123,456 B2')
+    expect(parsed?.status).toBe('issued')
+    expect(parsed?.issuedDate).toBe('Mar 2, 2021')
+    expect(parsed?.description).toBe('Evicts cache entries based on predicted reuse.')
+    expect(parsed?.inventors).toEqual([
+      { name: 'Riley Park', linkedinUrl: 'https://www.linkedin.com/in/riley-park/' },
+      { name: 'Sam Ortiz' },
+    ])
+  })
+
+  test('treats filed applications as pending', () => {
+    const parsed = parser.parse({
+      texts: ['Streaming Join Planner', 'US 17/123,456 · Filed Jan 3, 2022'],
+      links: [],
+      context: {
+        inventors: JSON.stringify([{ name: 'Jordan Vale', linkedinUrl: 'https://www.linkedin.com/in/jordan-vale/' }]),
+      },
+    })
+
+    expect(parsed?.status).toBe('pending')
+    expect(parsed?.applicationNumber).toBe('17/123,456')
+    expect(parsed?.number).toBeUndefined()
+    expect(parsed?.filingDate).toBe('Jan 3, 2022')
+    expect(parsed?.issuedDate).toBeUndefined()
+    expect(parsed?.inventors).toEqual([
+      { name: 'Jordan Vale', linkedinUrl: 'https://www.linkedin.com/in/jordan-vale/' },
+    ])
+  })
 })
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test'
+import { PersonStubParser } from '../../src/extraction/parsers'
+import { buildPeopleSearchUrl } from '../../src/scrapers/person/search'
+
+describe('PersonStubParser', () => {
+  const parser = new PersonStubParser()
+
+  test('parses name, degree, headline and canonical profile url', () => {
+    const parsed = parser.parse({
+      texts: ['Jordan Vale', '· 2nd', 'Product Research Lead at Example Corp', 'Connect'],
+      links: [
+        {
+          url: '/in/jordan-vale-123?miniProfileUrn=urn%3Ali%3Afs_miniProfile%3AABC',
+          text: 'Jordan Vale',
+          isExternal: false,
+        },
+      ],
+      context: {},
+    })
+
+    expect(parsed).not.toBeNull()
+    expect(parsed?.name).toBe('Jordan Vale')
+    expect(parsed?.headline).toBe('Product Research Lead at Example Corp')
+    expect(parsed?.linkedinUrl).toBe('https://www.linkedin.com/in/jordan-vale-123/')
+    expect(parsed?.connectionDegree).toBe('2nd')
+  })
+
+  test('splits degree suffix from the name line', () => {
+    const parsed = parser.parse({
+      texts: ['Taylor Quinn · 3rd+', 'Designer'],
+      links: [{ url: 'https://www.linkedin.com/in/taylor-quinn/', text: '', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed?.name).toBe('Taylor Quinn')
+    expect(parsed?.connectionDegree).toBe('3rd+')
+  })
+
+  test('keeps the plus of a standalone 3rd+ degree line', () => {
+    const parsed = parser.parse({
+      texts: ['Taylor Quinn', '· 3rd+', 'Designer'],
+      links: [{ url: 'https://www.linkedin.com/in/taylor-quinn/', text: '', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed?.name).toBe('Taylor Quinn')
+    expect(parsed?.connectionDegree).toBe('3rd+')
+  })
+
+  test('parses search result location and mutual connections', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Jordan Vale',
+        'View Jordan Vale’s profile',
+        '• 2nd',
+        '2nd degree connection',
+        'Product Research Lead at Example Corp',
+        'Riverton, Colorado',
+        'Current: Research Lead at Example Corp',
+        'Taylor Quinn and 12 other mutual connections',
+        'Connect',
+      ],
+      links: [{ url: 'https://www.linkedin.com/in/jordan-vale-123', text: '', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed?.headline).toBe('Product Research Lead at Example Corp')
+    expect(parsed?.location).toBe('Riverton, Colorado')
+    expect(parsed?.connectionDegree).toBe('2nd')
+    expect(parsed?.mutualConnections).toBe('Taylor Quinn and 12 other mutual connections')
+  })
+
+  test('returns null without a profile link', () => {
+    const parsed = parser.parse({
+      texts: ['LinkedIn Member', 'Engineer'],
+      links: [],
+      context: {},
+    })
+
+    expect(parsed).toBeNull()
+  })
+})
+
+describe('buildPeopleSearchUrl', () => {
+  test('encodes list filters as JSON arrays', () => {
+    const url = new URL(
+      buildPeopleSearchUrl(
+        {
+          keywords: 'designer',
+          title: 'Lead',
+          currentCompanies: ['1441'],
+          locations: ['103644278'],
+          connectionDegrees: ['2nd', '3rd+'],
+        },
+        3,
+      ),
+    )
+
+    expect(url.pathname).toBe('/search/results/people/')
+    expect(url.searchParams.get('keywords')).toBe('designer')
+    expect(url.searchParams.get('titleFreeText')).toBe('Lead')
+    expect(url.searchParams.get('currentCompany')).toBe('["1441"]')
+    expect(url.searchParams.get('geoUrn')).toBe('["103644278"]')
+    expect(url.searchParams.get('network')).toBe('["S","O"]')
+    expect(url.searchParams.get('pastCompany')).toBeNull()
+    expect(url.searchParams.get('page')).toBe('3')
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test'
+import { CommentParser, ReactorParser } from '../../src/extraction/parsers'
+import { relativeTimeToDate } from '../../src/scrapers/utils'
+
+describe('ReactorParser', () => {
+  const parser = new ReactorParser()
+
+  test('parses a reactor row with reaction type from context', () => {
+    const parsed = parser.parse({
+      texts: ['Morgan Ellis', '• 2nd', 'Data Engineer at Northwind', 'Connect'],
+      links: [
+        { url: 'https://www.linkedin.com/in/morgan-ellis?miniProfileUrn=abc', text: 'Morgan Ellis', isExternal: false },
+      ],
+      context: { reactionType: 'celebrate' },
+    })
+
+    expect(parsed).not.toBeNull()
+    expect(parsed?.name).toBe('Morgan Ellis')
+    expect(parsed?.headline).toBe('Data Engineer at Northwind')
+    expect(parsed?.linkedinUrl).toBe('https://www.linkedin.com/in/morgan-ellis/')
+    expect(parsed?.connectionDegree).toBe('2nd')
+    expect(parsed?.reactionType).toBe('celebrate')
+  })
+
+  test('returns null when the row has no profile link', () => {
+    expect(parser.parse({ texts: ['LinkedIn Member'], links: [], context: {} })).toBeNull()
+  })
+})
+
+describe('CommentParser', () => {
+  const parser = new CommentParser()
+
+  test('parses author, timestamp, body and like count', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Riley Park',
+        '• 1st',
+        'Staff Engineer at Contoso',
+        '3d',
+        'Great write-up, thanks for sharing.',
+        'We hit the same issue last quarter.',
+        'Like',
+        '4',
+        'Reply',
+        '2 replies',
+      ],
+      links: [{ url: 'https://www.linkedin.com/in/riley-park/', text: 'Riley Park', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed).not.toBeNull()
+    expect(parsed?.authorName).toBe('Riley Park')
+    expect(parsed?.authorHeadline).toBe('Staff Engineer at Contoso')
+    expect(parsed?.authorUrl).toBe('https://www.linkedin.com/in/riley-park/')
+    expect(parsed?.postedAgo).toBe('3d')
+    expect(parsed?.postedDate).toBe(relativeTimeToDate('3d'))
+    expect(parsed?.text).toBe('Great write-up, thanks for sharing.\nWe hit the same issue last quarter.')
+    expect(parsed?.reactionCount).toBe(4)
+    expect(parser.validate(parsed!)).toBe(true)
+  })
+
+  test('rejects comments without a body', () => {
+    const parsed = parser.parse({
+      texts: ['Riley Park', '3d', 'Like', 'Reply'],
+      links: [],
+      context: {},
+    })
+
+    expect(parsed).not.toBeNull()
+    expect(parser.validate(parsed!)).toBe(false)
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test'
+import { PostParser } from '../../src/extraction/parsers'
+import { relativeTimeToDate } from '../../src/scrapers/utils'
+
+describe('PostParser', () => {
+  const parser = new PostParser()
+
+  test('parses text, timestamp and engagement counts', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Jordan Vale',
+        'Product Research Lead',
+        '2w •',
+        'Shipping our new research toolkit today.',
+        'Feedback welcome!',
+        '…more',
+        'Taylor Quinn and 122 others',
+        '45 comments',
+        '6 reposts',
+        'Like',
+        'Comment',
+        'Repost',
+        'Send',
+      ],
+      links: [],
+      context: { urn: 'urn:li:activity:7100000000000000000', mediaType: 'image' },
+    })
+
+    expect(parsed).not.toBeNull()
+    expect(parsed?.url).toBe('https://www.linkedin.com/feed/update/urn:li:activity:7100000000000000000/')
+    expect(parsed?.text).toBe('Shipping our new research toolkit today.\nFeedback welcome!')
+    expect(parsed?.postedAgo).toBe('2w')
+    expect(parsed?.postedDate).toBe(relativeTimeToDate('2w'))
+    expect(parsed?.reactionCount).toBe(123)
+    expect(parsed?.commentCount).toBe(45)
+    expect(parsed?.repostCount).toBe(6)
+    expect(parsed?.mediaType).toBe('image')
+    expect(parsed?.resharedFrom).toBeUndefined()
+  })
+
+  test('captures the original author of a reshared post', () => {
+    const parsed = parser.parse({
+      texts: ['Jordan Vale reposted this', 'Taylor Quinn', '• 3rd+', 'Writer', '3d •', 'Original thoughts.', '12'],
+      links: [{ url: 'https://www.linkedin.com/in/taylor-quinn?trk=feed', text: 'Taylor Quinn', isExternal: false }],
+      context: { reactionCount: '12' },
+    })
+
+    expect(parsed?.resharedFrom).toEqual({
+      name: 'Taylor Quinn',
+      linkedinUrl: 'https://www.linkedin.com/in/taylor-quinn/',
+    })
+    expect(parsed?.text).toBe('Original thoughts.')
+    expect(parsed?.reactionCount).toBe(12)
+    expect(parsed?.mediaType).toBe('none')
+  })
+
+  test('keeps bare numbers in the post body as text', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Jordan Vale',
+        'Product Research Lead',
+        '1mo •',
+        'Our plans for',
+        '2024',
+        '42',
+        '8 reactions',
+        '3 comments',
+      ],
+      links: [],
+      context: {},
+    })
+
+    expect(parsed?.text).toBe('Our plans for\n2024\n42')
+    expect(parsed?.reactionCount).toBe(8)
+    expect(parsed?.commentCount).toBe(3)
+  })
+
+  test('prefers the reaction count from the social-counts bar', () => {
+    const parsed = parser.parse({
+      texts: ['Jordan Vale', 'Product Research Lead', '1w •', 'Launch recap', '1,204', '2 comments'],
+      links: [],
+      context: { reactionCount: '1,204' },
+    })
+
+    expect(parsed?.text).toBe('Launch recap')
+    expect(parsed?.reactionCount).toBe(1204)
+  })
+})
+
+describe('relativeTimeToDate', () => {
+  const now = new Date('2024-06-15T12:00:00Z')
+
+  test('handles short and long units', () => {
+    expect(relativeTimeToDate('2w •', now)).toBe('2024-06-01')
+    expect(relativeTimeToDate('3mo', now)).toBe('2024-03-15')
+    expect(relativeTimeToDate('1yr', now)).toBe('2023-06-15')
+    expect(relativeTimeToDate('5 days ago', now)).toBe('2024-06-10')
+    expect(relativeTimeToDate('13h', now)).toBe('2024-06-14')
+  })
+
+  test('returns undefined for non-relative text', () => {
+    expect(relativeTimeToDate('Product Research Lead', now)).toBeUndefined()
+  })
+})
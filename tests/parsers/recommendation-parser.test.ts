@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test'
+import { RecommendationParser } from '../../src/extraction/parsers'
+
+describe('RecommendationParser', () => {
+  const parser = new RecommendationParser()
+
+  test('parses author, relationship line and full text', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Jordan Vale',
+        '· 2nd',
+        'Product Research Lead at Northwind',
+        'March 5, 2023, Jordan managed Alex directly',
+        'Alex is one of the most thoughtful engineers I have worked with.',
+        'Jordan would hire Alex again without hesitation.',
+        '…see more',
+      ],
+      links: [{ url: 'https://www.linkedin.com/in/jordan-vale?trk=recs', text: 'Jordan Vale', isExternal: false }],
+      context: { type: 'received' },
+    })
+
+    expect(parsed).not.toBeNull()
+    expect(parsed?.type).toBe('received')
+    expect(parsed?.authorName).toBe('Jordan Vale')
+    expect(parsed?.authorUrl).toBe('https://www.linkedin.com/in/jordan-vale/')
+    expect(parsed?.authorHeadline).toBe('Product Research Lead at Northwind')
+    expect(parsed?.date).toBe('March 5, 2023')
+    expect(parsed?.relationship).toBe('Jordan managed Alex directly')
+    expect(parsed?.text).toBe(
+      'Alex is one of the most thoughtful engineers I have worked with.\nJordan would hire Alex again without hesitation.',
+    )
+    expect(parser.validate(parsed!)).toBe(true)
+  })
+
+  test('tags given recommendations from the tab context', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Riley Park',
+        'Staff Engineer',
+        'January 12, 2022, Alex worked with Riley on the same team',
+        'Great partner.',
+      ],
+      links: [],
+      context: { type: 'given' },
+    })
+
+    expect(parsed?.type).toBe('given')
+    expect(parsed?.text).toBe('Great partner.')
+  })
+
+  test('parses raw tab sections using the heading as the recommendation type', () => {
+    const parsed = parser.parseRaw([
+      {
+        heading: 'received',
+        text: 'Jordan Vale\nProduct Research Lead at Northwind\nMarch 5, 2023, Jordan managed Alex directly\nGreat engineer.',
+        labels: [],
+        anchors: [{ href: 'https://www.linkedin.com/in/jordan-vale/', text: 'Jordan Vale' }],
+      },
+      {
+        heading: 'given',
+        text: 'Casey Lin\nDesigner at Northwind\nApril 2, 2024, Alex worked with Casey\nClear prototypes.',
+        labels: [],
+        anchors: [],
+      },
+    ])
+
+    expect(parsed.map((rec) => [rec.type, rec.authorName])).toEqual([
+      ['received', 'Jordan Vale'],
+      ['given', 'Casey Lin'],
+    ])
+    expect(parsed[0]?.authorUrl).toBe('https://www.linkedin.com/in/jordan-vale/')
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test'
+import { RelatedProfileParser } from '../../src/extraction/parsers'
+
+describe('RelatedProfileParser', () => {
+  const parser = new RelatedProfileParser()
+
+  test('parses a sidebar card and tags it with its sidebar', () => {
+    const parsed = parser.parse({
+      texts: ['Jordan Blake', '· 2nd', 'Product Manager at Fabrikam', 'Connect'],
+      links: [{ url: 'https://www.linkedin.com/in/jordan-blake/?trk=pav', text: 'Jordan Blake', isExternal: false }],
+      context: { source: 'people-you-may-know' },
+    })
+
+    expect(parsed).toEqual({
+      name: 'Jordan Blake',
+      headline: 'Product Manager at Fabrikam',
+      location: undefined,
+      linkedinUrl: 'https://www.linkedin.com/in/jordan-blake/',
+      connectionDegree: '2nd',
+      mutualConnections: undefined,
+      plainText: 'Jordan Blake\n· 2nd\nProduct Manager at Fabrikam\nConnect',
+      source: 'people-you-may-know',
+    })
+  })
+
+  test('defaults to "people also viewed" and skips cards without a profile link', () => {
+    const parsed = parser.parse({
+      texts: ['Casey Lin', 'Designer', 'Follow'],
+      links: [{ url: 'https://www.linkedin.com/in/casey-lin', text: 'Casey Lin', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed?.source).toBe('people-also-viewed')
+    expect(parser.parse({ texts: ['Explore Premium profiles'], links: [], context: {} })).toBeNull()
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test'
+import { SchoolParser } from '../../src/extraction/parsers'
+
+describe('SchoolParser', () => {
+  const parser = new SchoolParser()
+
+  test('parses top card, overview definition list and alumni count', () => {
+    const [parsed] = parser.parseRaw([
+      { heading: 'name', text: 'State University', labels: [], anchors: [] },
+      {
+        heading: 'summary',
+        text: 'Higher Education · Springfield, Illinois · 245K followers',
+        labels: ['Higher Education', 'Springfield, Illinois', '245K followers'],
+        anchors: [],
+      },
+      { heading: 'overview', text: 'A public research university.', labels: [], anchors: [] },
+      {
+        heading: 'website',
+        text: 'state.example.edu',
+        labels: [],
+        anchors: [{ href: 'https://state.example.edu', text: 'state.example.edu' }],
+      },
+      { heading: 'company size', text: '10,001+ employees', labels: [], anchors: [] },
+      { heading: 'headquarters', text: 'Springfield, IL', labels: [], anchors: [] },
+      { heading: 'type', text: 'Educational', labels: [], anchors: [] },
+      { heading: 'alumni', text: '182,340 alumni', labels: [], anchors: [] },
+    ])
+
+    expect(parsed).toEqual({
+      name: 'State University',
+      followerCount: 245000,
+      about: 'A public research university.',
+      website: 'https://state.example.edu',
+      size: '10,001+ employees',
+      location: 'Springfield, IL',
+      type: 'Educational',
+      alumniCount: 182340,
+    })
+  })
+
+  test('falls back to the top card location and returns nothing without a name', () => {
+    const [parsed] = parser.parseRaw([
+      { heading: 'name', text: 'Coastal College', labels: [], anchors: [] },
+      {
+        heading: 'summary',
+        text: 'Higher Education · Monterey, California · 9K followers',
+        labels: ['Higher Education', 'Monterey, California', '9K followers'],
+        anchors: [],
+      },
+    ])
+
+    expect(parsed?.location).toBe('Monterey, California')
+    expect(parser.parseRaw([{ heading: 'type', text: 'Educational', labels: [], anchors: [] }])).toEqual([])
+  })
+})
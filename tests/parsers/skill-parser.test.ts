@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'bun:test'
+import { SkillParser } from '../../src/extraction/parsers'
+
+describe('SkillParser', () => {
+  const parser = new SkillParser()
+
+  test('parses endorsements and associated experiences', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Distributed Systems',
+        'Distributed Systems',
+        '3 experiences at Northwind and 1 other company',
+        'Endorsed by Jordan Vale and 11 others who are highly skilled at this',
+        'Endorsed by 4 colleagues at Northwind',
+        '27 endorsements',
+        'Endorse',
+      ],
+      links: [],
+      context: {},
+    })
+
+    expect(parsed).not.toBeNull()
+    expect(parsed?.name).toBe('Distributed Systems')
+    expect(parsed?.endorsementCount).toBe(27)
+    expect(parsed?.endorsedBy).toEqual([
+      'Endorsed by Jordan Vale and 11 others who are highly skilled at this',
+      'Endorsed by 4 colleagues at Northwind',
+    ])
+    expect(parsed?.associatedWith).toEqual(['3 experiences at Northwind and 1 other company'])
+    expect(parser.validate(parsed!)).toBe(true)
+  })
+
+  test('derives endorsement count from highlights when no total is shown', () => {
+    const parsed = parser.parse({
+      texts: ['TypeScript', 'Staff Engineer at Contoso', 'Endorsed by Riley Park and 2 others'],
+      links: [],
+      context: {},
+    })
+
+    expect(parsed?.endorsementCount).toBe(3)
+    expect(parsed?.associatedWith).toEqual(['Staff Engineer at Contoso'])
+  })
+
+  test('skips the section header', () => {
+    expect(parser.parse({ texts: ['Skills'], links: [], context: {} })).toBeNull()
+  })
+})
@@ -18,6 +18,29 @@ describe('TopCardParser', () => {
     })
     expect(parser.validate(parsed!)).toBe(true)
   })
+
+  test('skips pronouns and network counts when resolving positional fields', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Alex Doe',
+        'He/Him',
+        'Founder',
+        'Contoso',
+        'Austin, Texas, United States',
+        '12K followers · 500+ connections',
+      ],
+      links: [],
+      context: { currentCompany: 'Contoso', premium: 'true' },
+    })
+
+    expect(parsed?.headline).toBe('Founder')
+    expect(parsed?.origin).toBe('Austin, Texas, United States')
+    expect(parsed?.pronouns).toBe('He/Him')
+    expect(parsed?.followerCount).toBe(12000)
+    expect(parsed?.connectionCount).toBe(500)
+    expect(parsed?.currentCompany).toBe('Contoso')
+    expect(parsed?.isPremium).toBe(true)
+  })
 })
 
 describe('AboutParser', () => {
@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test'
+import { VolunteeringParser } from '../../src/extraction/parsers'
+
+describe('VolunteeringParser', () => {
+  const parser = new VolunteeringParser()
+
+  test('parses role, organization, dates, cause and description', () => {
+    const parsed = parser.parse({
+      texts: [
+        'Mentor',
+        'Code for Good',
+        'Jan 2019 - Present · 5 yrs 2 mos',
+        'Education',
+        'Mentoring high school students through their first open source contributions every semester.',
+      ],
+      links: [{ url: 'https://www.linkedin.com/company/code-for-good/', text: 'Code for Good', isExternal: false }],
+      context: {},
+    })
+
+    expect(parsed).not.toBeNull()
+    expect(parsed?.role).toBe('Mentor')
+    expect(parsed?.organization).toBe('Code for Good')
+    expect(parsed?.organizationUrl).toBe('https://www.linkedin.com/company/code-for-good/')
+    expect(parsed?.fromDate).toBe('Jan 2019')
+    expect(parsed?.toDate).toBe('Present')
+    expect(parsed?.duration).toBe('5 yrs 2 mos')
+    expect(parsed?.cause).toBe('Education')
+    expect(parsed?.description).toBe(
+      'Mentoring high school students through their first open source contributions every semester.',
+    )
+    expect(parser.validate(parsed!)).toBe(true)
+  })
+
+  test('handles entries without cause or description', () => {
+    const parsed = parser.parse({
+      texts: ['Volunteer', 'City Food Bank', 'Mar 2021 - Jun 2021 · 4 mos'],
+      links: [],
+      context: {},
+    })
+
+    expect(parsed?.cause).toBeUndefined()
+    expect(parsed?.description).toBeUndefined()
+    expect(parsed?.toDate).toBe('Jun 2021')
+  })
+})
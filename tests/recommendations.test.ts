@@ -0,0 +1,54 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { existsSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { chromium } from 'playwright'
+import { BrowserManager } from '../src/browser'
+import { getRecommendations } from '../src/scrapers/person/recommendations'
+
+async function loadFixture(name: string): Promise<string> {
+  return await readFile(new URL(`./fixtures/${name}`, import.meta.url), 'utf8')
+}
+
+const canRunPlaywright = existsSync(chromium.executablePath())
+const describeRecommendations = canRunPlaywright ? describe : describe.skip
+
+describeRecommendations('Recommendations tabs', () => {
+  let browserManager: BrowserManager
+
+  beforeAll(async () => {
+    browserManager = new BrowserManager({ headless: true })
+    await browserManager.start()
+  })
+
+  afterAll(async () => {
+    await browserManager.close()
+  })
+
+  test('tags received and given recommendations from tabs of different sizes', async () => {
+    const page = browserManager.page
+    const fixture = await loadFixture('recommendations-tabs.html')
+
+    await page.route('**/*', async (route) => {
+      const { pathname } = new URL(route.request().url())
+      const body = pathname === '/in/test/details/recommendations/' ? fixture : '<main></main>'
+      await route.fulfill({
+        status: 200,
+        contentType: 'text/html',
+        body: `<!doctype html><html><body>${body}</body></html>`,
+      })
+    })
+
+    const recommendations = await getRecommendations(page, 'https://www.linkedin.com/in/test')
+
+    expect(recommendations.map((rec) => [rec.type, rec.authorName])).toEqual([
+      ['received', 'Jordan Vale'],
+      ['received', 'Sam Lee'],
+      ['received', 'Riley Park'],
+      ['given', 'Casey Lin'],
+    ])
+    expect(recommendations[3]?.authorUrl).toBe('https://www.linkedin.com/in/casey-lin/')
+    expect(recommendations[3]?.relationship).toBe('Alex worked with Casey but on different teams')
+
+    await page.unroute('**/*')
+  })
+})
@@ -0,0 +1,54 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { existsSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { chromium } from 'playwright'
+import { BrowserManager } from '../src/browser'
+import { getAccomplishments } from '../src/scrapers/person/accomplishments'
+
+async function loadFixture(name: string): Promise<string> {
+  return await readFile(new URL(`./fixtures/${name}`, import.meta.url), 'utf8')
+}
+
+const canRunPlaywright = existsSync(chromium.executablePath())
+const describeTestScores = canRunPlaywright ? describe : describe.skip
+
+describeTestScores('Test scores accomplishments', () => {
+  let browserManager: BrowserManager
+
+  beforeAll(async () => {
+    browserManager = new BrowserManager({ headless: true })
+    await browserManager.start()
+  })
+
+  afterAll(async () => {
+    await browserManager.close()
+  })
+
+  test('extracts test scores from the details page', async () => {
+    const page = browserManager.page
+    const fixture = await loadFixture('test-scores-details.html')
+
+    await page.route('**/*', async (route) => {
+      const url = new URL(route.request().url())
+      const body = url.pathname === '/in/test/details/test-scores/' ? fixture : '<main></main>'
+      await route.fulfill({
+        status: 200,
+        contentType: 'text/html',
+        body: `<!doctype html><html><body>${body}</body></html>`,
+      })
+    })
+
+    const accomplishments = await getAccomplishments(page, 'https://www.linkedin.com/in/test', ['test-score'])
+
+    expect(accomplishments).toHaveLength(2)
+    expect(accomplishments[0]).toMatchObject({
+      category: 'test-score',
+      title: 'GRE General Test',
+      score: '331',
+      date: 'Oct 2016',
+      associatedWith: 'State University',
+      description: 'Verbal 163, Quantitative 168, Analytical Writing 5.0 taken before applying to graduate school.',
+    })
+    expect(accomplishments[1]).toMatchObject({ category: 'test-score', title: 'SAT', score: '1520', date: 'Jun 2011' })
+  })
+})
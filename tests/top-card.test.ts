@@ -95,4 +95,26 @@ describeTopCard('Top card extractor', () => {
       origin: 'Austin, Texas, United States',
     })
   })
+
+  test('extracts network counts, pronouns, badges and shortcuts for sample person C', async () => {
+    const page = browserManager.page
+    const html = await loadFixture('top-card-person-c.html')
+
+    await page.setContent(html)
+    const result = await extractTopCardFromPage(page)
+
+    expect(result.name).toBe('Riley Park')
+    expect(result.headline).toBe('Staff Engineer at Contoso')
+    expect(result.pronouns).toBe('She/Her')
+    expect(result.connections).toBe('500+')
+    expect(result.connectionCount).toBe(500)
+    expect(result.followerCount).toBe(1204)
+    expect(result.photoUrl).toBe('https://media.example.test/photo-c.jpg')
+    expect(result.bannerUrl).toBe('https://media.example.test/banner-c.jpg')
+    expect(result.isVerified).toBe(true)
+    expect(result.isHiring).toBe(true)
+    expect(result.isPremium).toBeUndefined()
+    expect(result.currentCompany).toBe('Contoso')
+    expect(result.recentEducation).toBe('State University')
+  })
 })